@@ -5,6 +5,10 @@
 |
 | The full license is in the file LICENSE, distributed with this software.
 |----------------------------------------------------------------------------*/
+import {
+  ResizeMonitor
+} from '../lib/resizemonitor';
+
 import {
   TabPanel
 } from '../lib/tabpanel';
@@ -46,7 +50,7 @@ function main(): void {
 
   Widget.attach(panel, document.body);
 
-  window.onresize = () => { panel.update(); };
+  new ResizeMonitor(panel);
 }
 
 
@@ -0,0 +1,340 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  DisposableDelegate, IDisposable
+} from 'phosphor-core/lib/disposable';
+
+import {
+  ISignal, clearSignalData, defineSignal
+} from 'phosphor-core/lib/signaling';
+
+
+/**
+ * An options object for creating a command.
+ *
+ * #### Notes
+ * The metadata functions are invoked with the `args` passed to the
+ * registry, which allows a single command to vary with its arguments.
+ */
+export
+interface ICommandOptions {
+  /**
+   * The function to invoke when the command is executed.
+   *
+   * #### Notes
+   * The return value is passed through to the caller of `execute`.
+   */
+  execute: (args: any) => any;
+
+  /**
+   * The label for the command.
+   *
+   * #### Notes
+   * This can be a string literal, or a function which returns the
+   * label based on the provided command arguments.
+   */
+  label?: string | ((args: any) => string);
+
+  /**
+   * The icon class for the command.
+   *
+   * #### Notes
+   * This can be a string literal, or a function which returns the
+   * icon based on the provided command arguments.
+   */
+  icon?: string | ((args: any) => string);
+
+  /**
+   * A function which indicates whether the command is enabled.
+   *
+   * #### Notes
+   * The default is always enabled.
+   */
+  isEnabled?: (args: any) => boolean;
+
+  /**
+   * A function which indicates whether the command is toggled.
+   *
+   * #### Notes
+   * The default is never toggled.
+   */
+  isToggled?: (args: any) => boolean;
+}
+
+
+/**
+ * The arguments object for the `commandChanged` signal.
+ */
+export
+interface ICommandChangedArgs {
+  /**
+   * The id of the changed command, or `''` for all commands.
+   */
+  id: string;
+
+  /**
+   * The type of the change.
+   *
+   * #### Notes
+   * This is one of `'added'`, `'removed'`, or `'changed'`.
+   */
+  type: string;
+}
+
+
+/**
+ * The arguments object for the `commandExecuted` signal.
+ */
+export
+interface ICommandExecutedArgs {
+  /**
+   * The id of the executed command.
+   */
+  id: string;
+
+  /**
+   * The arguments passed to the command.
+   */
+  args: any;
+
+  /**
+   * The value returned by the command.
+   */
+  result: any;
+}
+
+
+/**
+ * An object which manages a collection of commands.
+ *
+ * #### Notes
+ * A command registry is the single source of truth for the actions in
+ * an application. Menus, toolbars, and key bindings should refer to a
+ * command by id, and query the registry for its current state.
+ */
+export
+class CommandRegistry implements IDisposable {
+  /**
+   * Dispose of the resources held by the registry.
+   */
+  dispose(): void {
+    if (this._commands === null) {
+      return;
+    }
+    this._commands.clear();
+    this._commands = null;
+    clearSignalData(this);
+  }
+
+  /**
+   * A signal emitted when a command has been added, removed, or has
+   * changed its state.
+   */
+  commandChanged: ISignal<CommandRegistry, ICommandChangedArgs>;
+
+  /**
+   * A signal emitted when a command has been executed.
+   */
+  commandExecuted: ISignal<CommandRegistry, ICommandExecutedArgs>;
+
+  /**
+   * Test whether the registry is disposed.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isDisposed(): boolean {
+    return this._commands === null;
+  }
+
+  /**
+   * List the ids of the registered commands.
+   *
+   * @returns A new array of the registered command ids.
+   */
+  listCommands(): string[] {
+    let ids: string[] = [];
+    this._commands.forEach((cmd, id) => { ids.push(id); });
+    return ids;
+  }
+
+  /**
+   * Test whether a command is registered.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @returns `true` if the command is registered, `false` otherwise.
+   */
+  hasCommand(id: string): boolean {
+    return this._commands.has(id);
+  }
+
+  /**
+   * Add a command to the registry.
+   *
+   * @param id - The unique id of the command.
+   *
+   * @param options - The options for the command.
+   *
+   * @returns A disposable which will remove the command.
+   *
+   * #### Notes
+   * An error will be thrown if the id is already registered.
+   */
+  addCommand(id: string, options: ICommandOptions): IDisposable {
+    if (this._commands.has(id)) {
+      throw new Error(`Command '${id}' already registered.`);
+    }
+    this._commands.set(id, options);
+    this.commandChanged.emit({ id, type: 'added' });
+    return new DisposableDelegate(() => {
+      if (this.isDisposed || this._commands.get(id) !== options) {
+        return;
+      }
+      this._commands.delete(id);
+      this.commandChanged.emit({ id, type: 'removed' });
+    });
+  }
+
+  /**
+   * Notify listeners that the state of a command has changed.
+   *
+   * @param id - The id of the changed command. If omitted, all of
+   *   the commands are considered changed.
+   *
+   * #### Notes
+   * This should be called when the result of a metadata function of
+   * a command would change, so that menus and toolbars can refresh.
+   *
+   * An error will be thrown if the id is not registered.
+   */
+  notifyCommandChanged(id?: string): void {
+    if (id !== void 0 && !this._commands.has(id)) {
+      throw new Error(`Command '${id}' is not registered.`);
+    }
+    this.commandChanged.emit({ id: id || '', type: 'changed' });
+  }
+
+  /**
+   * Get the label for a command.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @param args - The arguments for the command.
+   *
+   * @returns The label for the command, or an empty string if the
+   *   command is not registered.
+   */
+  label(id: string, args: any = null): string {
+    let cmd = this._commands.get(id);
+    return cmd ? Private.resolveString(cmd.label, args) : '';
+  }
+
+  /**
+   * Get the icon class for a command.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @param args - The arguments for the command.
+   *
+   * @returns The icon class for the command, or an empty string if
+   *   the command is not registered.
+   */
+  icon(id: string, args: any = null): string {
+    let cmd = this._commands.get(id);
+    return cmd ? Private.resolveString(cmd.icon, args) : '';
+  }
+
+  /**
+   * Test whether a command is enabled.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @param args - The arguments for the command.
+   *
+   * @returns `true` if the command is enabled, `false` otherwise.
+   *
+   * #### Notes
+   * An unregistered command is never enabled.
+   */
+  isEnabled(id: string, args: any = null): boolean {
+    let cmd = this._commands.get(id);
+    if (!cmd) {
+      return false;
+    }
+    return cmd.isEnabled ? cmd.isEnabled(args) : true;
+  }
+
+  /**
+   * Test whether a command is toggled.
+   *
+   * @param id - The id of the command of interest.
+   *
+   * @param args - The arguments for the command.
+   *
+   * @returns `true` if the command is toggled, `false` otherwise.
+   */
+  isToggled(id: string, args: any = null): boolean {
+    let cmd = this._commands.get(id);
+    if (!cmd) {
+      return false;
+    }
+    return cmd.isToggled ? cmd.isToggled(args) : false;
+  }
+
+  /**
+   * Execute a command.
+   *
+   * @param id - The id of the command to execute.
+   *
+   * @param args - The arguments for the command.
+   *
+   * @returns The value returned by the command.
+   *
+   * #### Notes
+   * An error will be thrown if the command is not registered or is
+   * not enabled. Errors thrown by the command itself are propagated
+   * to the caller.
+   */
+  execute(id: string, args: any = null): any {
+    let cmd = this._commands.get(id);
+    if (!cmd) {
+      throw new Error(`Command '${id}' is not registered.`);
+    }
+    if (cmd.isEnabled && !cmd.isEnabled(args)) {
+      throw new Error(`Command '${id}' is not enabled.`);
+    }
+    let result = cmd.execute(args);
+    this.commandExecuted.emit({ id, args, result });
+    return result;
+  }
+
+  private _commands = new Map<string, ICommandOptions>();
+}
+
+
+// Define the signals for the `CommandRegistry` class.
+defineSignal(CommandRegistry.prototype, 'commandChanged');
+defineSignal(CommandRegistry.prototype, 'commandExecuted');
+
+
+/**
+ * The namespace for the private module data.
+ */
+namespace Private {
+  /**
+   * Resolve a string or string function for the given arguments.
+   */
+  export
+  function resolveString(value: string | ((args: any) => string), args: any): string {
+    if (typeof value === 'function') {
+      return (value as (args: any) => string)(args);
+    }
+    return (value as string) || '';
+  }
+}
@@ -0,0 +1,975 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  IDisposable
+} from 'phosphor-core/lib/disposable';
+
+import {
+  each
+} from 'phosphor-core/lib/iteration';
+
+import {
+  Message
+} from 'phosphor-core/lib/messaging';
+
+import {
+  indexOf
+} from 'phosphor-core/lib/searching';
+
+import {
+  BoxLayout
+} from './boxpanel';
+
+import {
+  overrideCursor
+} from './cssutil';
+
+import {
+  hitTest
+} from './domutil';
+
+import {
+  Orientation, SplitPanel
+} from './splitpanel';
+
+import {
+  StackedPanel
+} from './stackedpanel';
+
+import {
+  ITabDetachArgs, TabBar
+} from './tabbar';
+
+import {
+  TabPanel
+} from './tabpanel';
+
+import {
+  Widget
+} from './widget';
+
+
+/**
+ * The class name added to DockPanel instances.
+ */
+const DOCK_PANEL_CLASS = 'p-DockPanel';
+
+/**
+ * The class name added to dock panel tab panels.
+ */
+const TAB_PANEL_CLASS = 'p-DockPanel-tabPanel';
+
+/**
+ * The class name added to dock panel split panels.
+ */
+const SPLIT_PANEL_CLASS = 'p-DockPanel-splitPanel';
+
+/**
+ * The class name added to the dock panel overlay.
+ */
+const OVERLAY_CLASS = 'p-DockPanel-overlay';
+
+/**
+ * The class name added to a hidden dock panel overlay.
+ */
+const HIDDEN_CLASS = 'p-mod-hidden';
+
+/**
+ * The class name added to the overlay for a left drop zone.
+ */
+const LEFT_CLASS = 'p-mod-left';
+
+/**
+ * The class name added to the overlay for a right drop zone.
+ */
+const RIGHT_CLASS = 'p-mod-right';
+
+/**
+ * The class name added to the overlay for a top drop zone.
+ */
+const TOP_CLASS = 'p-mod-top';
+
+/**
+ * The class name added to the overlay for a bottom drop zone.
+ */
+const BOTTOM_CLASS = 'p-mod-bottom';
+
+/**
+ * The class name added to the overlay for a center drop zone.
+ */
+const CENTER_CLASS = 'p-mod-center';
+
+/**
+ * The fraction of a tab panel's size which is treated as an edge zone.
+ */
+const EDGE_FRACTION = 0.25;
+
+
+/**
+ * A widget which provides a flexible docking area for widgets.
+ *
+ * #### Notes
+ * The dock panel arranges its widgets into nested split panels and
+ * tab panels. The user can drag a tab out of its tab bar and drop it
+ * onto an edge or the center of any tab panel in the dock panel to
+ * rearrange the layout.
+ */
+export
+class DockPanel extends Widget {
+  /**
+   * Create a `TabPanel` for use in a dock panel.
+   *
+   * @returns A new tab panel to use with a dock panel.
+   *
+   * #### Notes
+   * This may be reimplemented to create custom tab panels.
+   */
+  static createTabPanel(): TabPanel {
+    let panel = new TabPanel();
+    panel.addClass(TAB_PANEL_CLASS);
+    return panel;
+  }
+
+  /**
+   * Create a `SplitPanel` for use in a dock panel.
+   *
+   * @param orientation - The orientation of the split panel.
+   *
+   * @returns A new split panel to use with a dock panel.
+   *
+   * #### Notes
+   * This may be reimplemented to create custom split panels.
+   */
+  static createSplitPanel(orientation: Orientation): SplitPanel {
+    let panel = new SplitPanel();
+    panel.addClass(SPLIT_PANEL_CLASS);
+    panel.orientation = orientation;
+    return panel;
+  }
+
+  /**
+   * Create the overlay node for a dock panel.
+   *
+   * @returns A new overlay node to indicate the drop zone.
+   *
+   * #### Notes
+   * This may be reimplemented to create a custom overlay.
+   */
+  static createOverlay(): HTMLElement {
+    let overlay = document.createElement('div');
+    overlay.className = `${OVERLAY_CLASS} ${HIDDEN_CLASS}`;
+    return overlay;
+  }
+
+  /**
+   * Construct a new dock panel.
+   */
+  constructor() {
+    super();
+    this.addClass(DOCK_PANEL_CLASS);
+
+    // Create the overlay node and add it to the panel.
+    let ctor = this.constructor as typeof DockPanel;
+    this._overlay = ctor.createOverlay();
+    this.node.appendChild(this._overlay);
+
+    // Setup the box layout which holds the root widget.
+    let layout = new BoxLayout();
+    layout.spacing = 0;
+    this.layout = layout;
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    this._releaseMouse();
+    this._overlay = null;
+    super.dispose();
+  }
+
+  /**
+   * Get the spacing between the split panel children.
+   */
+  get spacing(): number {
+    return this._spacing;
+  }
+
+  /**
+   * Set the spacing between the split panel children.
+   */
+  set spacing(value: number) {
+    value = Math.max(0, Math.floor(value));
+    if (this._spacing === value) {
+      return;
+    }
+    this._spacing = value;
+    Private.eachSplitPanel(this._root, panel => { panel.spacing = value; });
+  }
+
+  /**
+   * Get the root widget of the dock panel.
+   *
+   * #### Notes
+   * This will be a `SplitPanel`, a `TabPanel`, or `null` if the dock
+   * panel is empty.
+   *
+   * Modifying the root widget directly can lead to undefined behavior.
+   *
+   * This is a read-only property.
+   */
+  get root(): Widget {
+    return this._root;
+  }
+
+  /**
+   * Insert a widget as a new panel to the left of a reference widget.
+   *
+   * @param widget - The widget to insert into the dock panel.
+   *
+   * @param ref - The reference widget. If not provided, the widget
+   *   will be inserted at the left edge of the dock panel.
+   *
+   * #### Notes
+   * An error will be thrown if the reference is not in the panel.
+   */
+  insertLeft(widget: Widget, ref?: Widget): void {
+    this._insertSplit(widget, ref, Orientation.Horizontal, false);
+  }
+
+  /**
+   * Insert a widget as a new panel to the right of a reference widget.
+   *
+   * @param widget - The widget to insert into the dock panel.
+   *
+   * @param ref - The reference widget. If not provided, the widget
+   *   will be inserted at the right edge of the dock panel.
+   *
+   * #### Notes
+   * An error will be thrown if the reference is not in the panel.
+   */
+  insertRight(widget: Widget, ref?: Widget): void {
+    this._insertSplit(widget, ref, Orientation.Horizontal, true);
+  }
+
+  /**
+   * Insert a widget as a new panel above a reference widget.
+   *
+   * @param widget - The widget to insert into the dock panel.
+   *
+   * @param ref - The reference widget. If not provided, the widget
+   *   will be inserted at the top edge of the dock panel.
+   *
+   * #### Notes
+   * An error will be thrown if the reference is not in the panel.
+   */
+  insertTop(widget: Widget, ref?: Widget): void {
+    this._insertSplit(widget, ref, Orientation.Vertical, false);
+  }
+
+  /**
+   * Insert a widget as a new panel below a reference widget.
+   *
+   * @param widget - The widget to insert into the dock panel.
+   *
+   * @param ref - The reference widget. If not provided, the widget
+   *   will be inserted at the bottom edge of the dock panel.
+   *
+   * #### Notes
+   * An error will be thrown if the reference is not in the panel.
+   */
+  insertBottom(widget: Widget, ref?: Widget): void {
+    this._insertSplit(widget, ref, Orientation.Vertical, true);
+  }
+
+  /**
+   * Insert a widget as a sibling tab before a reference widget.
+   *
+   * @param widget - The widget to insert into the dock panel.
+   *
+   * @param ref - The reference widget. If not provided, the widget
+   *   will be inserted as the first tab of the first tab panel.
+   *
+   * #### Notes
+   * An error will be thrown if the reference is not in the panel.
+   */
+  insertTabBefore(widget: Widget, ref?: Widget): void {
+    this._insertTab(widget, ref, false);
+  }
+
+  /**
+   * Insert a widget as a sibling tab after a reference widget.
+   *
+   * @param widget - The widget to insert into the dock panel.
+   *
+   * @param ref - The reference widget. If not provided, the widget
+   *   will be inserted as the last tab of the last tab panel.
+   *
+   * #### Notes
+   * An error will be thrown if the reference is not in the panel.
+   */
+  insertTabAfter(widget: Widget, ref?: Widget): void {
+    this._insertTab(widget, ref, true);
+  }
+
+  /**
+   * Handle the DOM events for the dock panel.
+   *
+   * @param event - The DOM event sent to the dock panel.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the dock panel's DOM node. It
+   * should not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'pointermove':
+      this._evtPointerMove(event as PointerEvent);
+      break;
+    case 'pointerup':
+      this._evtPointerUp(event as PointerEvent);
+      break;
+    case 'pointercancel':
+      this._releaseMouse();
+      break;
+    case 'keydown':
+      this._evtKeyDown(event as KeyboardEvent);
+      break;
+    case 'contextmenu':
+      event.preventDefault();
+      event.stopPropagation();
+      break;
+    }
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this._releaseMouse();
+  }
+
+  /**
+   * Handle the `'keydown'` event for the dock panel.
+   */
+  private _evtKeyDown(event: KeyboardEvent): void {
+    // Stop all input events during drag.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Release the pointer if `Escape` is pressed.
+    if (event.keyCode === 27) this._releaseMouse();
+  }
+
+  /**
+   * Handle the `'pointermove'` event for the dock panel.
+   */
+  private _evtPointerMove(event: PointerEvent): void {
+    // Do nothing if no drag is in progress.
+    if (!this._dragData) {
+      return;
+    }
+
+    // Suppress the event during a drag.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Update the drop target for the new pointer position.
+    this._updateDropTarget(event.clientX, event.clientY);
+  }
+
+  /**
+   * Handle the `'pointerup'` event for the dock panel.
+   */
+  private _evtPointerUp(event: PointerEvent): void {
+    // Do nothing if it's not a primary button release.
+    if (event.button !== 0) {
+      return;
+    }
+
+    // Do nothing if no drag is in progress.
+    if (!this._dragData) {
+      return;
+    }
+
+    // Suppress the event during a drag operation.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Update the drop target for the final pointer position.
+    this._updateDropTarget(event.clientX, event.clientY);
+
+    // Release the pointer before modifying the layout.
+    let data = this._dragData;
+    this._releaseMouse();
+
+    // Bail if there is no valid drop target.
+    if (!data.target) {
+      return;
+    }
+
+    // Drop the widget onto the target zone.
+    let widget = data.widget;
+    let target = data.target;
+    switch (data.zone) {
+    case Private.DropZone.Left:
+      this._splitTabPanel(widget, target, Orientation.Horizontal, false);
+      break;
+    case Private.DropZone.Right:
+      this._splitTabPanel(widget, target, Orientation.Horizontal, true);
+      break;
+    case Private.DropZone.Top:
+      this._splitTabPanel(widget, target, Orientation.Vertical, false);
+      break;
+    case Private.DropZone.Bottom:
+      this._splitTabPanel(widget, target, Orientation.Vertical, true);
+      break;
+    case Private.DropZone.Center:
+      if (target !== Private.findTabPanel(widget)) {
+        target.addWidget(widget);
+        target.currentWidget = widget;
+      }
+      break;
+    }
+  }
+
+  /**
+   * Update the drop target and overlay for the given client position.
+   */
+  private _updateDropTarget(clientX: number, clientY: number): void {
+    let data = this._dragData;
+    let target = Private.hitTestTabPanels(this._root, clientX, clientY);
+    if (!target) {
+      data.target = null;
+      data.zone = Private.DropZone.None;
+      Private.hideOverlay(this._overlay);
+      return;
+    }
+    let zone = Private.computeZone(target.node, clientX, clientY);
+    data.target = target;
+    data.zone = zone;
+    Private.showOverlay(this._overlay, this.node, target.node, zone);
+  }
+
+  /**
+   * Release the pointer grab and hide the overlay.
+   */
+  private _releaseMouse(): void {
+    // Do nothing if no drag is in progress.
+    if (!this._dragData) {
+      return;
+    }
+
+    // Remove the extra document listeners.
+    document.removeEventListener('pointermove', this, true);
+    document.removeEventListener('pointerup', this, true);
+    document.removeEventListener('pointercancel', this, true);
+    document.removeEventListener('keydown', this, true);
+    document.removeEventListener('contextmenu', this, true);
+
+    // Clear the cursor override and the drag data.
+    this._dragData.override.dispose();
+    this._dragData = null;
+
+    // Hide the drop zone overlay.
+    Private.hideOverlay(this._overlay);
+  }
+
+  /**
+   * Insert a widget as a new tab panel split from a reference.
+   */
+  private _insertSplit(widget: Widget, ref: Widget, orientation: Orientation, after: boolean): void {
+    // Use the root as the target if there is no reference widget.
+    let target = ref ? Private.findTabPanel(ref) : this._root;
+    if (ref && (!target || !this.contains(target))) {
+      throw new Error('Reference widget is not in the dock panel.');
+    }
+
+    // Create a new tab panel to hold the widget.
+    let panel = this._createTabPanel();
+
+    // If the panel is empty, the new tab panel becomes the root.
+    if (!target) {
+      this._setRoot(panel);
+    } else {
+      this._splitTarget(target, panel, orientation, after);
+    }
+
+    // Add the widget to the new tab panel.
+    panel.addWidget(widget);
+  }
+
+  /**
+   * Insert a widget as a sibling tab of a reference widget.
+   */
+  private _insertTab(widget: Widget, ref: Widget, after: boolean): void {
+    // Look up the target tab panel and insert index.
+    let index: number;
+    let target: TabPanel;
+    if (ref) {
+      target = Private.findTabPanel(ref);
+      if (!target || !this.contains(target)) {
+        throw new Error('Reference widget is not in the dock panel.');
+      }
+      index = indexOf(target.widgets, ref) + (after ? 1 : 0);
+    } else {
+      target = Private.edgeTabPanel(this._root, after);
+      index = after ? Infinity : 0;
+    }
+
+    // If there is no tab panel, create a new root tab panel.
+    if (!target) {
+      target = this._createTabPanel();
+      this._setRoot(target);
+    }
+
+    // Insert the widget and make it the current widget.
+    target.insertWidget(index, widget);
+    target.currentWidget = widget;
+  }
+
+  /**
+   * Move a widget into a new tab panel split from a target tab panel.
+   */
+  private _splitTabPanel(widget: Widget, target: TabPanel, orientation: Orientation, after: boolean): void {
+    // Bail if the widget is the only widget in the target.
+    if (target.widgets.length === 1 && target.widgets.at(0) === widget) {
+      return;
+    }
+
+    // Split the target with a new tab panel.
+    let panel = this._createTabPanel();
+    this._splitTarget(target, panel, orientation, after);
+
+    // Move the widget into the new tab panel. This may cause the
+    // source tab panel to be removed if it becomes empty.
+    panel.addWidget(widget);
+  }
+
+  /**
+   * Split a target widget with a new tab panel.
+   *
+   * The target must be the root or a descendant split panel child.
+   */
+  private _splitTarget(target: Widget, panel: TabPanel, orientation: Orientation, after: boolean): void {
+    // If the target parent has the same orientation, insert the
+    // panel as a sibling and divide the target's size in half.
+    let parent = target.parent;
+    if (parent instanceof SplitPanel && parent.orientation === orientation) {
+      let i = indexOf(parent.widgets, target);
+      let sizes = parent.sizes();
+      let half = sizes[i] / 2;
+      sizes[i] = half;
+      sizes.splice(after ? i + 1 : i, 0, half);
+      parent.insertWidget(after ? i + 1 : i, panel);
+      parent.setSizes(sizes);
+      return;
+    }
+
+    // Otherwise, replace the target with a new split panel.
+    let split = this._createSplitPanel(orientation);
+    let sizes: number[] = null;
+    if (parent instanceof SplitPanel) {
+      sizes = parent.sizes();
+      parent.insertWidget(indexOf(parent.widgets, target), split);
+    } else {
+      this._setRoot(split);
+    }
+
+    // Add the target and the new panel to the split panel.
+    if (after) {
+      split.addWidget(target);
+      split.addWidget(panel);
+    } else {
+      split.addWidget(panel);
+      split.addWidget(target);
+    }
+
+    // Restore the parent sizes now the split has taken the place of
+    // the target, so the sizes match the children one-for-one.
+    if (sizes) (parent as SplitPanel).setSizes(sizes);
+  }
+
+  /**
+   * Set the root widget of the dock panel.
+   *
+   * The old root widget, if any, should already be reparented.
+   */
+  private _setRoot(root: Widget): void {
+    if (this._root && this._root.parent === this) {
+      this._root.parent = null;
+    }
+    this._root = root;
+    if (root) {
+      BoxLayout.setStretch(root, 1);
+      (this.layout as BoxLayout).addWidget(root);
+    }
+  }
+
+  /**
+   * Create a new tab panel which is managed by the dock panel.
+   */
+  private _createTabPanel(): TabPanel {
+    let panel = (this.constructor as typeof DockPanel).createTabPanel();
+    panel.tabsMovable = true;
+    panel.tabBar.tabDetachRequested.connect(this._onTabDetachRequested, this);
+    panel.stackedPanel.widgetRemoved.connect(this._onWidgetRemoved, this);
+    return panel;
+  }
+
+  /**
+   * Create a new split panel which is managed by the dock panel.
+   */
+  private _createSplitPanel(orientation: Orientation): SplitPanel {
+    let panel = (this.constructor as typeof DockPanel).createSplitPanel(orientation);
+    panel.spacing = this._spacing;
+    return panel;
+  }
+
+  /**
+   * Remove an empty tab panel and collapse its ancestor split panel.
+   */
+  private _removeTabPanel(panel: TabPanel): void {
+    // Remove the panel from its parent before disposing it.
+    let parent = panel.parent;
+    panel.parent = null;
+    panel.dispose();
+
+    // If the panel was the root, the dock panel is now empty.
+    if (panel === this._root) {
+      this._root = null;
+      return;
+    }
+
+    // Otherwise, collapse the parent split panel if needed.
+    if (parent instanceof SplitPanel) {
+      this._collapseSplitPanel(parent);
+    }
+  }
+
+  /**
+   * Collapse a split panel which has fewer than two children.
+   */
+  private _collapseSplitPanel(split: SplitPanel): void {
+    // Bail if the split panel still needs to split its children.
+    let count = split.widgets.length;
+    if (count > 1) {
+      return;
+    }
+
+    // Look up the parent and the remaining child, if any.
+    let parent = split.parent;
+    let child = count === 1 ? split.widgets.at(0) : null;
+
+    // If the split panel is the root, the child becomes the root.
+    if (split === this._root) {
+      if (child) child.parent = null;
+      this._setRoot(child);
+      split.dispose();
+      return;
+    }
+
+    // Bail if the split panel is not in a parent split panel.
+    if (!(parent instanceof SplitPanel)) {
+      return;
+    }
+
+    // Remove the split panel if it is empty.
+    let outer = parent as SplitPanel;
+    if (!child) {
+      split.parent = null;
+      split.dispose();
+      this._collapseSplitPanel(outer);
+      return;
+    }
+
+    // Replace the split panel with its remaining child. If the child
+    // is a split panel with the same orientation as the parent, its
+    // children are merged directly into the parent split panel.
+    let i = indexOf(outer.widgets, split);
+    let sizes = outer.sizes();
+    if (child instanceof SplitPanel && child.orientation === outer.orientation) {
+      let inner = child as SplitPanel;
+      let innerSizes = Private.scaleSizes(inner.sizes(), sizes[i]);
+      while (inner.widgets.length > 0) {
+        let j = i + innerSizes.length - inner.widgets.length;
+        outer.insertWidget(j, inner.widgets.at(0));
+      }
+      sizes.splice(i, 1, ...innerSizes);
+      inner.dispose();
+    } else {
+      outer.insertWidget(i, child);
+    }
+    split.dispose();
+    outer.setSizes(sizes);
+  }
+
+  /**
+   * Handle the `tabDetachRequested` signal from a tab bar.
+   */
+  private _onTabDetachRequested(sender: TabBar, args: ITabDetachArgs): void {
+    // Do nothing if a drag is already in progress.
+    if (this._dragData) {
+      return;
+    }
+
+    // Release the tab bar pointer grab to take over the drag.
+    sender.releaseMouse();
+
+    // Setup the drag data and the extra document listeners.
+    this._dragData = {
+      widget: args.title.owner as Widget,
+      target: null,
+      zone: Private.DropZone.None,
+      override: overrideCursor('default')
+    };
+    document.addEventListener('pointermove', this, true);
+    document.addEventListener('pointerup', this, true);
+    document.addEventListener('pointercancel', this, true);
+    document.addEventListener('keydown', this, true);
+    document.addEventListener('contextmenu', this, true);
+
+    // Show the drop target for the current pointer position.
+    this._updateDropTarget(args.clientX, args.clientY);
+  }
+
+  /**
+   * Handle the `widgetRemoved` signal from a tab panel stack.
+   */
+  private _onWidgetRemoved(sender: StackedPanel, widget: Widget): void {
+    let panel = sender.parent as TabPanel;
+    if (panel && sender.widgets.length === 0) {
+      this._removeTabPanel(panel);
+    }
+  }
+
+  private _spacing = 3;
+  private _root: Widget = null;
+  private _overlay: HTMLElement;
+  private _dragData: Private.IDragData = null;
+}
+
+
+/**
+ * The namespace for the private module data.
+ */
+namespace Private {
+  /**
+   * An enum of the drop zones for a tab panel.
+   */
+  export
+  enum DropZone {
+    /**
+     * No valid drop zone.
+     */
+    None,
+
+    /**
+     * The left edge of a tab panel.
+     */
+    Left,
+
+    /**
+     * The right edge of a tab panel.
+     */
+    Right,
+
+    /**
+     * The top edge of a tab panel.
+     */
+    Top,
+
+    /**
+     * The bottom edge of a tab panel.
+     */
+    Bottom,
+
+    /**
+     * The center of a tab panel.
+     */
+    Center
+  }
+
+  /**
+   * An object which holds the drag data for a dock panel.
+   */
+  export
+  interface IDragData {
+    /**
+     * The widget being dragged.
+     */
+    widget: Widget;
+
+    /**
+     * The tab panel under the pointer, if any.
+     */
+    target: TabPanel;
+
+    /**
+     * The drop zone of the target tab panel.
+     */
+    zone: DropZone;
+
+    /**
+     * The disposable which will clear the override cursor.
+     */
+    override: IDisposable;
+  }
+
+  /**
+   * Find the tab panel which contains the given widget, if any.
+   */
+  export
+  function findTabPanel(widget: Widget): TabPanel {
+    let stack = widget.parent;
+    let panel = stack && stack.parent;
+    if (panel instanceof TabPanel && panel.stackedPanel === stack) {
+      return panel as TabPanel;
+    }
+    return null;
+  }
+
+  /**
+   * Find the first or last tab panel in a dock panel widget tree.
+   */
+  export
+  function edgeTabPanel(root: Widget, last: boolean): TabPanel {
+    while (root instanceof SplitPanel) {
+      let widgets = (root as SplitPanel).widgets;
+      root = widgets.at(last ? widgets.length - 1 : 0);
+    }
+    return root instanceof TabPanel ? root as TabPanel : null;
+  }
+
+  /**
+   * Invoke a callback for each split panel in a widget tree.
+   */
+  export
+  function eachSplitPanel(root: Widget, fn: (panel: SplitPanel) => void): void {
+    if (root instanceof SplitPanel) {
+      fn(root as SplitPanel);
+      each((root as SplitPanel).widgets, child => { eachSplitPanel(child, fn); });
+    }
+  }
+
+  /**
+   * Find the tab panel in a widget tree under the client position.
+   */
+  export
+  function hitTestTabPanels(root: Widget, clientX: number, clientY: number): TabPanel {
+    if (!root || root.isHidden || !hitTest(root.node, clientX, clientY)) {
+      return null;
+    }
+    if (root instanceof TabPanel) {
+      return root as TabPanel;
+    }
+    if (!(root instanceof SplitPanel)) {
+      return null;
+    }
+    let widgets = (root as SplitPanel).widgets;
+    for (let i = 0, n = widgets.length; i < n; ++i) {
+      let panel = hitTestTabPanels(widgets.at(i), clientX, clientY);
+      if (panel) return panel;
+    }
+    return null;
+  }
+
+  /**
+   * Compute the drop zone of a node for the given client position.
+   */
+  export
+  function computeZone(node: HTMLElement, clientX: number, clientY: number): DropZone {
+    let rect = node.getBoundingClientRect();
+    let fx = (clientX - rect.left) / rect.width;
+    let fy = (clientY - rect.top) / rect.height;
+    let dl = fx;
+    let dr = 1 - fx;
+    let dt = fy;
+    let db = 1 - fy;
+    let min = Math.min(dl, dr, dt, db);
+    if (min > EDGE_FRACTION) {
+      return DropZone.Center;
+    }
+    if (min === dl) {
+      return DropZone.Left;
+    }
+    if (min === dr) {
+      return DropZone.Right;
+    }
+    if (min === dt) {
+      return DropZone.Top;
+    }
+    return DropZone.Bottom;
+  }
+
+  /**
+   * Show the overlay over the zone of a target node.
+   */
+  export
+  function showOverlay(overlay: HTMLElement, host: HTMLElement, target: HTMLElement, zone: DropZone): void {
+    // Compute the target rect relative to the host node.
+    let hostRect = host.getBoundingClientRect();
+    let targetRect = target.getBoundingClientRect();
+    let top = targetRect.top - hostRect.top;
+    let left = targetRect.left - hostRect.left;
+    let width = targetRect.width;
+    let height = targetRect.height;
+
+    // Adjust the rect for the drop zone.
+    switch (zone) {
+    case DropZone.Left:
+      width /= 2;
+      break;
+    case DropZone.Right:
+      left += width / 2;
+      width /= 2;
+      break;
+    case DropZone.Top:
+      height /= 2;
+      break;
+    case DropZone.Bottom:
+      top += height / 2;
+      height /= 2;
+      break;
+    }
+
+    // Update the overlay geometry and modifier classes.
+    let style = overlay.style;
+    style.top = `${top}px`;
+    style.left = `${left}px`;
+    style.width = `${width}px`;
+    style.height = `${height}px`;
+    overlay.classList.remove(HIDDEN_CLASS);
+    overlay.classList.toggle(LEFT_CLASS, zone === DropZone.Left);
+    overlay.classList.toggle(RIGHT_CLASS, zone === DropZone.Right);
+    overlay.classList.toggle(TOP_CLASS, zone === DropZone.Top);
+    overlay.classList.toggle(BOTTOM_CLASS, zone === DropZone.Bottom);
+    overlay.classList.toggle(CENTER_CLASS, zone === DropZone.Center);
+  }
+
+  /**
+   * Hide the drop zone overlay.
+   */
+  export
+  function hideOverlay(overlay: HTMLElement): void {
+    overlay.classList.add(HIDDEN_CLASS);
+  }
+
+  /**
+   * Scale an array of sizes so that they sum to the given total.
+   */
+  export
+  function scaleSizes(sizes: number[], total: number): number[] {
+    let sum = sizes.reduce((a, b) => a + b, 0);
+    if (sum === 0) {
+      return sizes.map(() => total / sizes.length);
+    }
+    return sizes.map(size => size * total / sum);
+  }
+}
@@ -0,0 +1,712 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  IDisposable
+} from 'phosphor-core/lib/disposable';
+
+import {
+  ISignal, clearSignalData, defineSignal
+} from 'phosphor-core/lib/signaling';
+
+import {
+  overrideCursor
+} from './cssutil';
+
+import {
+  hitTest
+} from './domutil';
+
+
+/**
+ * The class name added to a drag image node.
+ */
+const DRAG_IMAGE_CLASS = 'p-mod-drag-image';
+
+
+/**
+ * An enum of the drop actions for a drag operation.
+ *
+ * #### Notes
+ * The values are bit flags, so a set of supported actions can be
+ * expressed by combining values with the bitwise `|` operator.
+ */
+export
+enum DropAction {
+  /**
+   * No action. The drag was rejected or canceled.
+   */
+  None = 0x0,
+
+  /**
+   * The data is copied to the drop target.
+   */
+  Copy = 0x1,
+
+  /**
+   * The data is linked from the drop target.
+   */
+  Link = 0x2,
+
+  /**
+   * The data is moved to the drop target.
+   */
+  Move = 0x4
+}
+
+
+/**
+ * An object which stores mime-typed data for a drag operation.
+ *
+ * #### Notes
+ * The data stored for a mime type is an arbitrary JS value. Drop
+ * targets should check for the mime types they understand, and ignore
+ * drags which do not provide them.
+ */
+export
+class MimeData {
+  /**
+   * List the mime types contained in the mime data.
+   *
+   * @returns A new array of the mime types, in insertion order.
+   */
+  types(): string[] {
+    let result: string[] = [];
+    this._data.forEach((value, mime) => { result.push(mime); });
+    return result;
+  }
+
+  /**
+   * Test whether the data for the given mime type is available.
+   *
+   * @param mime - The mime type of interest.
+   *
+   * @returns `true` if the data is available, `false` otherwise.
+   */
+  hasData(mime: string): boolean {
+    return this._data.has(mime);
+  }
+
+  /**
+   * Get the data for the given mime type.
+   *
+   * @param mime - The mime type of interest.
+   *
+   * @returns The data for the mime type, or `undefined`.
+   */
+  getData(mime: string): any {
+    return this._data.get(mime);
+  }
+
+  /**
+   * Set the data for the given mime type.
+   *
+   * @param mime - The mime type of interest.
+   *
+   * @param data - The data for the mime type.
+   *
+   * #### Notes
+   * This will overwrite any existing data for the mime type.
+   */
+  setData(mime: string, data: any): void {
+    this._data.set(mime, data);
+  }
+
+  /**
+   * Remove the data for the given mime type.
+   *
+   * @param mime - The mime type of interest.
+   *
+   * #### Notes
+   * This is a no-op if there is no data for the mime type.
+   */
+  clearData(mime: string): void {
+    this._data.delete(mime);
+  }
+
+  /**
+   * Remove all data from the mime data object.
+   */
+  clear(): void {
+    this._data.clear();
+  }
+
+  private _data = new Map<string, any>();
+}
+
+
+/**
+ * An event dispatched to the DOM during a drag operation.
+ *
+ * #### Notes
+ * The event types are `'p-dragenter'`, `'p-dragleave'`, `'p-dragover'`,
+ * and `'p-drop'`. The events bubble, so a widget can listen for them
+ * on its own node to handle drags over any of its descendants.
+ *
+ * A drop target accepts the drag by calling `preventDefault` on the
+ * `'p-dragover'` and `'p-drop'` events, and may change the `dropAction`
+ * to any of the `supportedActions`.
+ */
+export
+interface IDragEvent extends MouseEvent {
+  /**
+   * The mime data for the drag operation.
+   */
+  mimeData: MimeData;
+
+  /**
+   * The action proposed by the drag source.
+   */
+  proposedAction: DropAction;
+
+  /**
+   * The bitwise combination of the actions supported by the source.
+   */
+  supportedActions: DropAction;
+
+  /**
+   * The action to perform, as chosen by the drop target.
+   *
+   * #### Notes
+   * This is initialized to the proposed action. An action which is not
+   * supported by the drag source is treated as `DropAction.None`.
+   */
+  dropAction: DropAction;
+
+  /**
+   * The source object of the drag, or `null`.
+   */
+  source: any;
+}
+
+
+/**
+ * An options object for initializing a drag operation.
+ */
+export
+interface IDragOptions {
+  /**
+   * The mime data for the drag operation.
+   */
+  mimeData: MimeData;
+
+  /**
+   * The node to display under the pointer during the drag.
+   *
+   * #### Notes
+   * The node is owned by the drag and is removed when it finishes.
+   */
+  dragImage?: HTMLElement;
+
+  /**
+   * The action proposed by the drag source.
+   *
+   * #### Notes
+   * The default is `DropAction.Copy`.
+   */
+  proposedAction?: DropAction;
+
+  /**
+   * The bitwise combination of the actions supported by the source.
+   *
+   * #### Notes
+   * The default is `DropAction.Copy | DropAction.Link | DropAction.Move`.
+   */
+  supportedActions?: DropAction;
+
+  /**
+   * The source object of the drag.
+   */
+  source?: any;
+}
+
+
+/**
+ * An object which manages a drag and drop operation.
+ *
+ * #### Notes
+ * A drag source creates a drag, typically once a pointer press has
+ * moved past a threshold, and starts it at the pointer position. The
+ * drag then tracks the pointer with document capture listeners and
+ * dispatches drag events to the element under the pointer.
+ *
+ * The drag source should release any pointer grab of its own before
+ * starting the drag, and should connect to the `finished` signal to
+ * complete the operation, for example to remove moved data.
+ */
+export
+class Drag implements IDisposable {
+  /**
+   * Construct a new drag.
+   *
+   * @param options - The options for initializing the drag.
+   */
+  constructor(options: IDragOptions) {
+    this._mimeData = options.mimeData;
+    if (options.dragImage !== void 0) {
+      this._dragImage = options.dragImage;
+    }
+    if (options.proposedAction !== void 0) {
+      this._proposedAction = options.proposedAction;
+    }
+    if (options.supportedActions !== void 0) {
+      this._supportedActions = options.supportedActions;
+    }
+    if (options.source !== void 0) {
+      this._source = options.source;
+    }
+  }
+
+  /**
+   * Dispose of the resources held by the drag.
+   *
+   * #### Notes
+   * Disposing a drag which is in progress cancels the drag, and the
+   * `finished` signal is not emitted.
+   */
+  dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+    this._disposed = true;
+    this._finish(null);
+    this._mimeData = null;
+    this._dragImage = null;
+    this._source = null;
+    clearSignalData(this);
+  }
+
+  /**
+   * A signal emitted when the drag operation is finished.
+   *
+   * #### Notes
+   * The argument is the drop action accepted by the drop target, or
+   * `DropAction.None` if the drag was rejected or canceled.
+   */
+  finished: ISignal<Drag, DropAction>;
+
+  /**
+   * Test whether the drag is disposed.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * Test whether the drag is in progress.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isActive(): boolean {
+    return this._override !== null;
+  }
+
+  /**
+   * Get the mime data for the drag.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get mimeData(): MimeData {
+    return this._mimeData;
+  }
+
+  /**
+   * Get the drag image node for the drag.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get dragImage(): HTMLElement {
+    return this._dragImage;
+  }
+
+  /**
+   * Get the action proposed by the drag source.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get proposedAction(): DropAction {
+    return this._proposedAction;
+  }
+
+  /**
+   * Get the actions supported by the drag source.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get supportedActions(): DropAction {
+    return this._supportedActions;
+  }
+
+  /**
+   * Get the source object of the drag.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get source(): any {
+    return this._source;
+  }
+
+  /**
+   * Start the drag operation at the specified client position.
+   *
+   * @param clientX - The client X position of the pointer.
+   *
+   * @param clientY - The client Y position of the pointer.
+   *
+   * @param pointerId - The id of the pointer driving the drag, or `-1`
+   *   to use the pointer of the first pointer event. The default is `-1`.
+   *
+   * #### Notes
+   * Events for other pointers are ignored during the drag.
+   *
+   * An error will be thrown if the drag is disposed, or if it has
+   * already been started.
+   */
+  start(clientX: number, clientY: number, pointerId = -1): void {
+    if (this._disposed) {
+      throw new Error('Cannot start a disposed drag.');
+    }
+    if (this._started) {
+      throw new Error('The drag has already been started.');
+    }
+    this._started = true;
+    this._pointerId = pointerId;
+
+    // Add the drag image to the document.
+    if (this._dragImage) {
+      this._dragImage.classList.add(DRAG_IMAGE_CLASS);
+      document.body.appendChild(this._dragImage);
+      Private.moveDragImage(this._dragImage, clientX, clientY);
+    }
+
+    // Install the document capture listeners.
+    this._override = overrideCursor('default');
+    document.addEventListener('pointermove', this, true);
+    document.addEventListener('pointerup', this, true);
+    document.addEventListener('pointercancel', this, true);
+    document.addEventListener('keydown', this, true);
+    document.addEventListener('contextmenu', this, true);
+  }
+
+  /**
+   * Handle the DOM events for the drag.
+   *
+   * @param event - The DOM event sent to the drag.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the document during a drag.
+   *
+   * This should not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'pointermove':
+      this._evtPointerMove(event as PointerEvent);
+      break;
+    case 'pointerup':
+      this._evtPointerUp(event as PointerEvent);
+      break;
+    case 'pointercancel':
+      this._evtPointerCancel(event as PointerEvent);
+      break;
+    case 'keydown':
+      this._evtKeyDown(event as KeyboardEvent);
+      break;
+    case 'contextmenu':
+      event.preventDefault();
+      event.stopPropagation();
+      break;
+    }
+  }
+
+  /**
+   * Handle the `'pointermove'` event for the drag.
+   */
+  private _evtPointerMove(event: PointerEvent): void {
+    // Do nothing if the event is not for the drag pointer.
+    if (!this._isDragPointer(event)) {
+      return;
+    }
+
+    // Suppress the event during a drag.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Move the drag image to the pointer position.
+    if (this._dragImage) {
+      Private.moveDragImage(this._dragImage, event.clientX, event.clientY);
+    }
+
+    // Update the current target for the pointer position.
+    let target = Private.findTarget(event.clientX, event.clientY, this._dragImage);
+    if (target !== this._target) {
+      this._dispatch('p-dragleave', this._target, event, target);
+      this._dispatch('p-dragenter', target, event, this._target);
+      this._target = target;
+    }
+
+    // Dispatch the drag over event and update the drop action.
+    this._setAction(this._dispatch('p-dragover', target, event, null));
+  }
+
+  /**
+   * Handle the `'pointerup'` event for the drag.
+   */
+  private _evtPointerUp(event: PointerEvent): void {
+    // Do nothing if it's not a primary button release.
+    if (event.button !== 0) {
+      return;
+    }
+
+    // Do nothing if the event is not for the drag pointer.
+    if (!this._isDragPointer(event)) {
+      return;
+    }
+
+    // Suppress the event during a drag.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Drop on the current target, or leave it if it will not accept.
+    let action = DropAction.None;
+    if (this._action !== DropAction.None) {
+      action = this._dispatch('p-drop', this._target, event, null);
+    } else {
+      this._dispatch('p-dragleave', this._target, event, null);
+    }
+
+    // Finish the drag with the accepted action.
+    this._finish(action);
+  }
+
+  /**
+   * Handle the `'pointercancel'` event for the drag.
+   */
+  private _evtPointerCancel(event: PointerEvent): void {
+    // Do nothing if the event is not for the drag pointer.
+    if (!this._isDragPointer(event)) {
+      return;
+    }
+
+    // Leave the current target and cancel the drag.
+    this._dispatch('p-dragleave', this._target, event, null);
+    this._finish(DropAction.None);
+  }
+
+  /**
+   * Handle the `'keydown'` event for the drag.
+   */
+  private _evtKeyDown(event: KeyboardEvent): void {
+    // Stop all input events during drag.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Cancel the drag if `Escape` is pressed.
+    if (event.keyCode === 27) {
+      this._dispatch('p-dragleave', this._target, null, null);
+      this._finish(DropAction.None);
+    }
+  }
+
+  /**
+   * Test whether a pointer event is for the drag pointer.
+   *
+   * The drag adopts the pointer of the first event if no pointer id
+   * was given to [[start]].
+   */
+  private _isDragPointer(event: PointerEvent): boolean {
+    if (this._pointerId === -1) {
+      this._pointerId = event.pointerId;
+    }
+    return event.pointerId === this._pointerId;
+  }
+
+  /**
+   * Dispatch a drag event to a target element.
+   *
+   * @returns The drop action accepted by the target.
+   */
+  private _dispatch(type: string, target: Element, event: MouseEvent, related: Element): DropAction {
+    if (!target) {
+      return DropAction.None;
+    }
+    let ev = Private.createDragEvent(type, this, event, related);
+    let accepted = !target.dispatchEvent(ev);
+    if (!accepted) {
+      return DropAction.None;
+    }
+    return ev.dropAction & this._supportedActions;
+  }
+
+  /**
+   * Update the current drop action and the cursor override.
+   */
+  private _setAction(action: DropAction): void {
+    if (this._action === action) {
+      return;
+    }
+    this._action = action;
+    this._override.dispose();
+    this._override = overrideCursor(Private.cursorForAction(action));
+  }
+
+  /**
+   * Clean up the drag and emit the `finished` signal.
+   *
+   * @param action - The final drop action, or `null` to skip the
+   *   `finished` signal.
+   */
+  private _finish(action: DropAction): void {
+    // Bail if the drag is not in progress.
+    if (!this._override) {
+      return;
+    }
+
+    // Remove the document capture listeners.
+    document.removeEventListener('pointermove', this, true);
+    document.removeEventListener('pointerup', this, true);
+    document.removeEventListener('pointercancel', this, true);
+    document.removeEventListener('keydown', this, true);
+    document.removeEventListener('contextmenu', this, true);
+
+    // Clear the cursor override and the current target.
+    this._override.dispose();
+    this._override = null;
+    this._target = null;
+    this._action = DropAction.None;
+
+    // Remove the drag image from the document.
+    let image = this._dragImage;
+    if (image && image.parentNode) {
+      image.parentNode.removeChild(image);
+      image.classList.remove(DRAG_IMAGE_CLASS);
+    }
+
+    // Emit the finished signal if needed.
+    if (action !== null) this.finished.emit(action);
+  }
+
+  private _disposed = false;
+  private _started = false;
+  private _pointerId = -1;
+  private _mimeData: MimeData;
+  private _dragImage: HTMLElement = null;
+  private _proposedAction = DropAction.Copy;
+  private _supportedActions = DropAction.Copy | DropAction.Link | DropAction.Move;
+  private _source: any = null;
+  private _target: Element = null;
+  private _action = DropAction.None;
+  private _override: IDisposable = null;
+}
+
+
+// Define the signals for the `Drag` class.
+defineSignal(Drag.prototype, 'finished');
+
+
+/**
+ * The namespace for the private module data.
+ */
+namespace Private {
+  /**
+   * Find the target element for the given client position.
+   *
+   * #### Notes
+   * This descends from the document body into the topmost child which
+   * contains the position, preferring later siblings since they paint
+   * above earlier ones. The drag image is ignored.
+   *
+   * Returns `null` if the position is outside the document body.
+   */
+  export
+  function findTarget(clientX: number, clientY: number, image: HTMLElement): Element {
+    let node: Element = document.body;
+    if (!hitTest(node, clientX, clientY)) {
+      return null;
+    }
+    while (true) {
+      let next: Element = null;
+      let children = (node as HTMLElement).children;
+      for (let i = children.length - 1; i >= 0; --i) {
+        let child = children[i];
+        if (child !== image && hitTest(child, clientX, clientY)) {
+          next = child;
+          break;
+        }
+      }
+      if (!next) {
+        return node;
+      }
+      node = next;
+    }
+  }
+
+  /**
+   * Move a drag image node to the given client position.
+   */
+  export
+  function moveDragImage(node: HTMLElement, clientX: number, clientY: number): void {
+    node.style.left = `${clientX}px`;
+    node.style.top = `${clientY}px`;
+  }
+
+  /**
+   * Create a drag event for the given drag.
+   *
+   * #### Notes
+   * The pointer state is copied from the given mouse event, if any.
+   */
+  export
+  function createDragEvent(type: string, drag: Drag, event: MouseEvent, related: Element): IDragEvent {
+    let ev = document.createEvent('MouseEvent') as IDragEvent;
+    if (event) {
+      ev.initMouseEvent(
+        type, true, true, window, 0,
+        event.screenX, event.screenY, event.clientX, event.clientY,
+        event.ctrlKey, event.altKey, event.shiftKey, event.metaKey,
+        event.button, related
+      );
+    } else {
+      ev.initMouseEvent(
+        type, true, true, window, 0, 0, 0, 0, 0,
+        false, false, false, false, 0, related
+      );
+    }
+    ev.mimeData = drag.mimeData;
+    ev.proposedAction = drag.proposedAction;
+    ev.supportedActions = drag.supportedActions;
+    ev.dropAction = drag.proposedAction;
+    ev.source = drag.source;
+    return ev;
+  }
+
+  /**
+   * Get the cursor to show for the given drop action.
+   */
+  export
+  function cursorForAction(action: DropAction): string {
+    switch (action) {
+    case DropAction.Copy:
+      return 'copy';
+    case DropAction.Link:
+      return 'alias';
+    case DropAction.Move:
+      return 'move';
+    }
+    return 'no-drop';
+  }
+}
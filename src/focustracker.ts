@@ -0,0 +1,363 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  each
+} from 'phosphor-core/lib/iteration';
+
+import {
+  IDisposable
+} from 'phosphor-core/lib/disposable';
+
+import {
+  sendMessage
+} from 'phosphor-core/lib/messaging';
+
+import {
+  findIndex, indexOf
+} from 'phosphor-core/lib/searching';
+
+import {
+  ISequence
+} from 'phosphor-core/lib/sequence';
+
+import {
+  ISignal, clearSignalData, defineSignal
+} from 'phosphor-core/lib/signaling';
+
+import {
+  Vector
+} from 'phosphor-core/lib/vector';
+
+import {
+  Widget, WidgetMessage
+} from './widget';
+
+
+/**
+ * The arguments object for the focus tracker changed signals.
+ */
+export
+interface IFocusChangedArgs<T extends Widget> {
+  /**
+   * The previous widget, or `null`.
+   */
+  oldValue: T;
+
+  /**
+   * The new widget, or `null`.
+   */
+  newValue: T;
+}
+
+
+/**
+ * An object which tracks the focused state of a set of widgets.
+ *
+ * #### Notes
+ * The `currentWidget` is the most recently focused widget in the set,
+ * and it remains current when the focus leaves the set. The
+ * `activeWidget` is the widget in the set which contains the focused
+ * element, or `null` if no widget in the set has the focus.
+ *
+ * Widgets are sent a `'focus-in'` message when they become the active
+ * widget, and a `'focus-out'` message when they are no longer active.
+ */
+export
+class FocusTracker<T extends Widget> implements IDisposable {
+  /**
+   * Dispose of the resources held by the tracker.
+   */
+  dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+    this._disposed = true;
+    each(this._widgets, widget => {
+      widget.node.removeEventListener('focus', this, true);
+      widget.node.removeEventListener('blur', this, true);
+      widget.disposed.disconnect(this._onWidgetDisposed, this);
+    });
+    this._current = null;
+    this._active = null;
+    this._widgets.clear();
+    this._numbers.clear();
+    clearSignalData(this);
+  }
+
+  /**
+   * A signal emitted when the current widget has changed.
+   */
+  currentChanged: ISignal<FocusTracker<T>, IFocusChangedArgs<T>>;
+
+  /**
+   * A signal emitted when the active widget has changed.
+   */
+  activeChanged: ISignal<FocusTracker<T>, IFocusChangedArgs<T>>;
+
+  /**
+   * Test whether the tracker is disposed.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * The current widget in the tracker.
+   *
+   * #### Notes
+   * This is the most recently focused widget, or `null`.
+   *
+   * This is a read-only property.
+   */
+  get currentWidget(): T {
+    return this._current;
+  }
+
+  /**
+   * The active widget in the tracker.
+   *
+   * #### Notes
+   * This is the widget which contains the focused element, or `null`.
+   *
+   * This is a read-only property.
+   */
+  get activeWidget(): T {
+    return this._active;
+  }
+
+  /**
+   * A read-only sequence of the widgets in the tracker.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get widgets(): ISequence<T> {
+    return this._widgets;
+  }
+
+  /**
+   * Get the focus number for a particular widget in the tracker.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The focus number for the given widget, or `-1` if the
+   *   widget has not had focus since being added to the tracker, or
+   *   if the widget is not contained by the tracker.
+   *
+   * #### Notes
+   * A higher focus number indicates a more recently focused widget.
+   */
+  focusNumber(widget: T): number {
+    let n = this._numbers.get(widget);
+    return n === void 0 ? -1 : n;
+  }
+
+  /**
+   * Test whether the tracker contains a given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns `true` if the widget is tracked, `false` otherwise.
+   */
+  has(widget: T): boolean {
+    return this._numbers.has(widget);
+  }
+
+  /**
+   * Add a widget to the focus tracker.
+   *
+   * @param widget - The widget of interest.
+   *
+   * #### Notes
+   * A widget is automatically removed from the tracker when it is
+   * disposed.
+   *
+   * If the widget contains the focused element, it becomes both the
+   * current and the active widget.
+   *
+   * If the widget is already tracked, this is a no-op.
+   */
+  add(widget: T): void {
+    // Bail if the widget is already tracked.
+    if (this._numbers.has(widget)) {
+      return;
+    }
+
+    // Test whether the widget has the focus.
+    let focused = widget.node.contains(document.activeElement);
+
+    // Add the widget to the internal data structures.
+    this._widgets.pushBack(widget);
+    this._numbers.set(widget, focused ? this._counter++ : -1);
+
+    // Install the listeners and connect the signal handler.
+    widget.node.addEventListener('focus', this, true);
+    widget.node.addEventListener('blur', this, true);
+    widget.disposed.connect(this._onWidgetDisposed, this);
+
+    // Update the current and active widgets if needed.
+    if (focused) {
+      this._setWidgets(widget, widget);
+    }
+  }
+
+  /**
+   * Remove a widget from the focus tracker.
+   *
+   * #### Notes
+   * If the widget is the current widget, the next most recently
+   * focused widget becomes current. If the widget is the active
+   * widget, the active widget is cleared.
+   *
+   * If the widget is not tracked, this is a no-op.
+   */
+  remove(widget: T): void {
+    // Bail if the widget is not tracked.
+    let i = indexOf(this._widgets, widget);
+    if (i === -1) {
+      return;
+    }
+
+    // Remove the listeners and disconnect the signal handler.
+    widget.node.removeEventListener('focus', this, true);
+    widget.node.removeEventListener('blur', this, true);
+    widget.disposed.disconnect(this._onWidgetDisposed, this);
+
+    // Remove the widget from the internal data structures.
+    this._widgets.remove(i);
+    this._numbers.delete(widget);
+
+    // Bail if the widget was not the current widget.
+    if (this._current !== widget) {
+      return;
+    }
+
+    // Find the next most recently focused widget.
+    let next: T = null;
+    let best = -1;
+    each(this._widgets, other => {
+      let n = this._numbers.get(other);
+      if (n > best) {
+        best = n;
+        next = other;
+      }
+    });
+
+    // Update the current and active widgets.
+    this._setWidgets(next, null);
+  }
+
+  /**
+   * Handle the DOM events for the focus tracker.
+   *
+   * @param event - The DOM event sent to the tracker.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the tracked widget nodes. It
+   * should not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'focus':
+      this._evtFocus(event as FocusEvent);
+      break;
+    case 'blur':
+      this._evtBlur(event as FocusEvent);
+      break;
+    }
+  }
+
+  /**
+   * Handle the `'focus'` event for a tracked widget.
+   */
+  private _evtFocus(event: FocusEvent): void {
+    let widget = this._findWidget(event.currentTarget as HTMLElement);
+    if (!widget) {
+      return;
+    }
+    this._numbers.set(widget, this._counter++);
+    this._setWidgets(widget, widget);
+  }
+
+  /**
+   * Handle the `'blur'` event for a tracked widget.
+   */
+  private _evtBlur(event: FocusEvent): void {
+    // Ignore the event if the focus stays within the widget.
+    let widget = this._findWidget(event.currentTarget as HTMLElement);
+    let related = event.relatedTarget as HTMLElement;
+    if (!widget || (related && widget.node.contains(related))) {
+      return;
+    }
+
+    // Clear the active widget if the focus has left it.
+    if (this._active === widget) {
+      this._setWidgets(this._current, null);
+    }
+  }
+
+  /**
+   * Find the tracked widget which owns the given node.
+   */
+  private _findWidget(node: HTMLElement): T {
+    let i = findIndex(this._widgets, widget => widget.node === node);
+    return i !== -1 ? this._widgets.at(i) : null;
+  }
+
+  /**
+   * Set the current and active widgets and emit the changes.
+   */
+  private _setWidgets(current: T, active: T): void {
+    // Swap the current widget.
+    let oldCurrent = this._current;
+    this._current = current;
+
+    // Swap the active widget.
+    let oldActive = this._active;
+    this._active = active;
+
+    // Notify the widgets of the active change.
+    if (oldActive !== active) {
+      if (oldActive) sendMessage(oldActive, WidgetMessage.FocusOut);
+      if (active) sendMessage(active, WidgetMessage.FocusIn);
+    }
+
+    // Emit the current changed signal if needed.
+    if (oldCurrent !== current) {
+      this.currentChanged.emit({ oldValue: oldCurrent, newValue: current });
+    }
+
+    // Emit the active changed signal if needed.
+    if (oldActive !== active) {
+      this.activeChanged.emit({ oldValue: oldActive, newValue: active });
+    }
+  }
+
+  /**
+   * Handle the `disposed` signal of a tracked widget.
+   */
+  private _onWidgetDisposed(sender: T): void {
+    this.remove(sender);
+  }
+
+  private _counter = 0;
+  private _disposed = false;
+  private _current: T = null;
+  private _active: T = null;
+  private _widgets = new Vector<T>();
+  private _numbers = new Map<T, number>();
+}
+
+
+// Define the signals for the `FocusTracker` class.
+defineSignal(FocusTracker.prototype, 'currentChanged');
+defineSignal(FocusTracker.prototype, 'activeChanged');
@@ -0,0 +1,1056 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  each, map, toArray
+} from 'phosphor-core/lib/iteration';
+
+import {
+  Message, sendMessage
+} from 'phosphor-core/lib/messaging';
+
+import {
+  AttachedProperty
+} from 'phosphor-core/lib/properties';
+
+import {
+  Vector
+} from 'phosphor-core/lib/vector';
+
+import {
+  BoxSizer, boxCalc
+} from './boxengine';
+
+import {
+  IBoxSizing, boxSizing, sizeLimits
+} from './domutil';
+
+import {
+  prepareGeometry, resetGeometry, setGeometry
+} from './layoututil';
+
+import {
+  Panel, PanelLayout
+} from './panel';
+
+import {
+  ChildMessage, ResizeMessage, Widget, WidgetMessage
+} from './widget';
+
+
+/**
+ * The class name added to GridPanel instances.
+ */
+const GRID_PANEL_CLASS = 'p-GridPanel';
+
+/**
+ * The class name added to a GridPanel child.
+ */
+const CHILD_CLASS = 'p-GridPanel-child';
+
+
+/**
+ * An object which defines the sizing of a grid row or column.
+ *
+ * #### Notes
+ * Each definition is backed by a [[BoxSizer]]. Omitted fields take
+ * the default values of the box sizer.
+ */
+export
+interface ITrackDefinition {
+  /**
+   * The preferred size of the track.
+   */
+  sizeHint?: number;
+
+  /**
+   * The minimum size of the track.
+   *
+   * #### Notes
+   * The track is also sized to fit the minimum size of its widgets.
+   */
+  minSize?: number;
+
+  /**
+   * The maximum size of the track.
+   */
+  maxSize?: number;
+
+  /**
+   * The stretch factor of the track.
+   */
+  stretch?: number;
+}
+
+
+/**
+ * A panel which arranges its widgets in a grid of rows and columns.
+ *
+ * #### Notes
+ * This class provides a convenience wrapper around a [[GridLayout]].
+ */
+export
+class GridPanel extends Panel {
+  /**
+   * Create a grid layout for a grid panel.
+   */
+  static createLayout(): GridLayout {
+    return new GridLayout();
+  }
+
+  /**
+   * Construct a new grid panel.
+   */
+  constructor() {
+    super();
+    this.addClass(GRID_PANEL_CLASS);
+  }
+
+  /**
+   * Get the inter-row spacing for the grid panel.
+   */
+  get rowSpacing(): number {
+    return (this.layout as GridLayout).rowSpacing;
+  }
+
+  /**
+   * Set the inter-row spacing for the grid panel.
+   */
+  set rowSpacing(value: number) {
+    (this.layout as GridLayout).rowSpacing = value;
+  }
+
+  /**
+   * Get the inter-column spacing for the grid panel.
+   */
+  get columnSpacing(): number {
+    return (this.layout as GridLayout).columnSpacing;
+  }
+
+  /**
+   * Set the inter-column spacing for the grid panel.
+   */
+  set columnSpacing(value: number) {
+    (this.layout as GridLayout).columnSpacing = value;
+  }
+
+  /**
+   * The number of rows in the grid panel.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get rowCount(): number {
+    return (this.layout as GridLayout).rowCount;
+  }
+
+  /**
+   * The number of columns in the grid panel.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get columnCount(): number {
+    return (this.layout as GridLayout).columnCount;
+  }
+
+  /**
+   * Get the row definitions for the grid panel.
+   *
+   * @returns A new array of the current row definitions.
+   */
+  rowDefinitions(): ITrackDefinition[] {
+    return (this.layout as GridLayout).rowDefinitions();
+  }
+
+  /**
+   * Set the row definitions for the grid panel.
+   *
+   * @param defs - The definitions for the rows of the grid.
+   *
+   * #### Notes
+   * An empty array will yield a single row with default sizing.
+   */
+  setRowDefinitions(defs: ITrackDefinition[]): void {
+    (this.layout as GridLayout).setRowDefinitions(defs);
+  }
+
+  /**
+   * Get the column definitions for the grid panel.
+   *
+   * @returns A new array of the current column definitions.
+   */
+  columnDefinitions(): ITrackDefinition[] {
+    return (this.layout as GridLayout).columnDefinitions();
+  }
+
+  /**
+   * Set the column definitions for the grid panel.
+   *
+   * @param defs - The definitions for the columns of the grid.
+   *
+   * #### Notes
+   * An empty array will yield a single column with default sizing.
+   */
+  setColumnDefinitions(defs: ITrackDefinition[]): void {
+    (this.layout as GridLayout).setColumnDefinitions(defs);
+  }
+
+  /**
+   * A message handler invoked on a `'child-added'` message.
+   */
+  protected onChildAdded(msg: ChildMessage): void {
+    msg.child.addClass(CHILD_CLASS);
+  }
+
+  /**
+   * A message handler invoked on a `'child-removed'` message.
+   */
+  protected onChildRemoved(msg: ChildMessage): void {
+    msg.child.removeClass(CHILD_CLASS);
+  }
+}
+
+
+/**
+ * The namespace for the `GridPanel` class statics.
+ */
+export
+namespace GridPanel {
+  /**
+   * Get the grid panel row index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid panel row index for the widget.
+   */
+  export
+  function getRow(widget: Widget): number {
+    return GridLayout.getRow(widget);
+  }
+
+  /**
+   * Set the grid panel row index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the row index.
+   */
+  export
+  function setRow(widget: Widget, value: number): void {
+    GridLayout.setRow(widget, value);
+  }
+
+  /**
+   * Get the grid panel column index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid panel column index for the widget.
+   */
+  export
+  function getColumn(widget: Widget): number {
+    return GridLayout.getColumn(widget);
+  }
+
+  /**
+   * Set the grid panel column index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the column index.
+   */
+  export
+  function setColumn(widget: Widget, value: number): void {
+    GridLayout.setColumn(widget, value);
+  }
+
+  /**
+   * Get the grid panel row span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid panel row span for the widget.
+   */
+  export
+  function getRowSpan(widget: Widget): number {
+    return GridLayout.getRowSpan(widget);
+  }
+
+  /**
+   * Set the grid panel row span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the row span.
+   */
+  export
+  function setRowSpan(widget: Widget, value: number): void {
+    GridLayout.setRowSpan(widget, value);
+  }
+
+  /**
+   * Get the grid panel column span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid panel column span for the widget.
+   */
+  export
+  function getColumnSpan(widget: Widget): number {
+    return GridLayout.getColumnSpan(widget);
+  }
+
+  /**
+   * Set the grid panel column span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the column span.
+   */
+  export
+  function setColumnSpan(widget: Widget, value: number): void {
+    GridLayout.setColumnSpan(widget, value);
+  }
+}
+
+
+/**
+ * A layout which arranges its widgets in a grid of rows and columns.
+ *
+ * #### Notes
+ * Each widget is placed in the cell given by its `row` and `column`
+ * attached properties, and may span multiple rows and columns. The
+ * cell indices are clamped to the bounds of the grid.
+ */
+export
+class GridLayout extends PanelLayout {
+  /**
+   * Get the inter-row spacing for the grid layout.
+   */
+  get rowSpacing(): number {
+    return this._rowSpacing;
+  }
+
+  /**
+   * Set the inter-row spacing for the grid layout.
+   */
+  set rowSpacing(value: number) {
+    value = Math.max(0, Math.floor(value));
+    if (this._rowSpacing === value) {
+      return;
+    }
+    this._rowSpacing = value;
+    if (!this.parent) {
+      return;
+    }
+    this.parent.fit();
+  }
+
+  /**
+   * Get the inter-column spacing for the grid layout.
+   */
+  get columnSpacing(): number {
+    return this._columnSpacing;
+  }
+
+  /**
+   * Set the inter-column spacing for the grid layout.
+   */
+  set columnSpacing(value: number) {
+    value = Math.max(0, Math.floor(value));
+    if (this._columnSpacing === value) {
+      return;
+    }
+    this._columnSpacing = value;
+    if (!this.parent) {
+      return;
+    }
+    this.parent.fit();
+  }
+
+  /**
+   * The number of rows in the grid layout.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get rowCount(): number {
+    return this._rowDefs.length;
+  }
+
+  /**
+   * The number of columns in the grid layout.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get columnCount(): number {
+    return this._columnDefs.length;
+  }
+
+  /**
+   * Get the row definitions for the grid layout.
+   *
+   * @returns A new array of the current row definitions.
+   */
+  rowDefinitions(): ITrackDefinition[] {
+    return toArray(map(this._rowDefs, Private.copyDefinition));
+  }
+
+  /**
+   * Set the row definitions for the grid layout.
+   *
+   * @param defs - The definitions for the rows of the grid.
+   *
+   * #### Notes
+   * An empty array will yield a single row with default sizing.
+   */
+  setRowDefinitions(defs: ITrackDefinition[]): void {
+    this._rowDefs = Private.normalizeDefinitions(defs);
+    Private.resizeSizers(this._rowSizers, this._rowDefs.length);
+    if (this.parent) this.parent.fit();
+  }
+
+  /**
+   * Get the column definitions for the grid layout.
+   *
+   * @returns A new array of the current column definitions.
+   */
+  columnDefinitions(): ITrackDefinition[] {
+    return toArray(map(this._columnDefs, Private.copyDefinition));
+  }
+
+  /**
+   * Set the column definitions for the grid layout.
+   *
+   * @param defs - The definitions for the columns of the grid.
+   *
+   * #### Notes
+   * An empty array will yield a single column with default sizing.
+   */
+  setColumnDefinitions(defs: ITrackDefinition[]): void {
+    this._columnDefs = Private.normalizeDefinitions(defs);
+    Private.resizeSizers(this._columnSizers, this._columnDefs.length);
+    if (this.parent) this.parent.fit();
+  }
+
+  /**
+   * Attach a widget to the parent's DOM node.
+   *
+   * @param index - The current index of the widget in the layout.
+   *
+   * @param widget - The widget to attach to the parent.
+   *
+   * #### Notes
+   * This is a reimplementation of the superclass method.
+   */
+  protected attachWidget(index: number, widget: Widget): void {
+    // Prepare the layout geometry for the widget.
+    prepareGeometry(widget);
+
+    // Add the widget's node to the parent.
+    this.parent.node.appendChild(widget.node);
+
+    // Send an `'after-attach'` message if the parent is attached.
+    if (this.parent.isAttached) sendMessage(widget, WidgetMessage.AfterAttach);
+
+    // Post a layout request for the parent widget.
+    this.parent.fit();
+  }
+
+  /**
+   * Move a widget in the parent's DOM node.
+   *
+   * @param fromIndex - The previous index of the widget in the layout.
+   *
+   * @param toIndex - The current index of the widget in the layout.
+   *
+   * @param widget - The widget to move in the parent.
+   *
+   * #### Notes
+   * This is a reimplementation of the superclass method.
+   *
+   * The widget order does not affect the grid, so this is a no-op.
+   */
+  protected moveWidget(fromIndex: number, toIndex: number, widget: Widget): void { }
+
+  /**
+   * Detach a widget from the parent's DOM node.
+   *
+   * @param index - The previous index of the widget in the layout.
+   *
+   * @param widget - The widget to detach from the parent.
+   *
+   * #### Notes
+   * This is a reimplementation of the superclass method.
+   */
+  protected detachWidget(index: number, widget: Widget): void {
+    // Send a `'before-detach'` message if the parent is attached.
+    if (this.parent.isAttached) sendMessage(widget, WidgetMessage.BeforeDetach);
+
+    // Remove the widget's node from the parent.
+    this.parent.node.removeChild(widget.node);
+
+    // Reset the layout geometry for the widget.
+    resetGeometry(widget);
+
+    // Post a layout request for the parent widget.
+    this.parent.fit();
+  }
+
+  /**
+   * A message handler invoked on an `'after-show'` message.
+   */
+  protected onAfterShow(msg: Message): void {
+    super.onAfterShow(msg);
+    this.parent.update();
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    super.onAfterAttach(msg);
+    this.parent.fit();
+  }
+
+  /**
+   * A message handler invoked on a `'child-shown'` message.
+   */
+  protected onChildShown(msg: ChildMessage): void {
+    if (Private.IsIE) { // prevent flicker on IE
+      sendMessage(this.parent, WidgetMessage.FitRequest);
+    } else {
+      this.parent.fit();
+    }
+  }
+
+  /**
+   * A message handler invoked on a `'child-hidden'` message.
+   */
+  protected onChildHidden(msg: ChildMessage): void {
+    if (Private.IsIE) { // prevent flicker on IE
+      sendMessage(this.parent, WidgetMessage.FitRequest);
+    } else {
+      this.parent.fit();
+    }
+  }
+
+  /**
+   * A message handler invoked on a `'resize'` message.
+   */
+  protected onResize(msg: ResizeMessage): void {
+    if (this.parent.isVisible) {
+      this._update(msg.width, msg.height);
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    if (this.parent.isVisible) {
+      this._update(-1, -1);
+    }
+  }
+
+  /**
+   * A message handler invoked on a `'fit-request'` message.
+   */
+  protected onFitRequest(msg: Message): void {
+    if (this.parent.isAttached) {
+      this._fit();
+    }
+  }
+
+  /**
+   * Fit the layout to the total size required by the widgets.
+   */
+  private _fit(): void {
+    // Reset the track sizers to their definitions.
+    Private.resetSizers(this._rowSizers, this._rowDefs);
+    Private.resetSizers(this._columnSizers, this._columnDefs);
+
+    // Compute the size limits of the visible widgets.
+    let widgets = this.widgets;
+    let cells: Private.ICellData[] = [];
+    for (let i = 0, n = widgets.length; i < n; ++i) {
+      let widget = widgets.at(i);
+      if (widget.isHidden) {
+        continue;
+      }
+      let limits = sizeLimits(widget.node);
+      let cell = Private.createCell(widget, this.rowCount, this.columnCount);
+      cells.push(cell);
+
+      // Expand the tracks of the single span widgets first.
+      if (cell.rowSpan === 1) {
+        Private.growMinSize(this._rowSizers, cell.row, limits.minHeight);
+      }
+      if (cell.columnSpan === 1) {
+        Private.growMinSize(this._columnSizers, cell.column, limits.minWidth);
+      }
+      cell.minWidth = limits.minWidth;
+      cell.minHeight = limits.minHeight;
+    }
+
+    // Expand the tracks of the spanning widgets as needed.
+    for (let i = 0, n = cells.length; i < n; ++i) {
+      let cell = cells[i];
+      if (cell.rowSpan > 1) {
+        Private.distributeMinSize(
+          this._rowSizers, cell.row, cell.rowSpan,
+          this._rowSpacing, cell.minHeight
+        );
+      }
+      if (cell.columnSpan > 1) {
+        Private.distributeMinSize(
+          this._columnSizers, cell.column, cell.columnSpan,
+          this._columnSpacing, cell.minWidth
+        );
+      }
+    }
+
+    // Ensure the maximum track sizes respect the minimum sizes.
+    each(this._rowSizers, sizer => {
+      sizer.maxSize = Math.max(sizer.minSize, sizer.maxSize);
+    });
+    each(this._columnSizers, sizer => {
+      sizer.maxSize = Math.max(sizer.minSize, sizer.maxSize);
+    });
+
+    // Update the fixed space for the tracks.
+    this._fixedW = this._columnSpacing * (this.columnCount - 1);
+    this._fixedH = this._rowSpacing * (this.rowCount - 1);
+
+    // Compute the size limits from the track sizers.
+    let minW = this._fixedW;
+    let minH = this._fixedH;
+    let maxW = this._fixedW;
+    let maxH = this._fixedH;
+    each(this._columnSizers, sizer => {
+      minW += sizer.minSize;
+      maxW += sizer.maxSize;
+    });
+    each(this._rowSizers, sizer => {
+      minH += sizer.minSize;
+      maxH += sizer.maxSize;
+    });
+
+    // Update the box sizing and add it to the size constraints.
+    let box = this._box = boxSizing(this.parent.node);
+    minW += box.horizontalSum;
+    minH += box.verticalSum;
+    maxW += box.horizontalSum;
+    maxH += box.verticalSum;
+
+    // Update the parent's size constraints.
+    let style = this.parent.node.style;
+    style.minWidth = `${minW}px`;
+    style.minHeight = `${minH}px`;
+    style.maxWidth = maxW === Infinity ? 'none' : `${maxW}px`;
+    style.maxHeight = maxH === Infinity ? 'none' : `${maxH}px`;
+
+    // Set the dirty flag to ensure only a single update occurs.
+    this._dirty = true;
+
+    // Notify the ancestor that it should fit immediately. This may
+    // cause a resize of the parent, fulfilling the required update.
+    let ancestor = this.parent.parent;
+    if (ancestor) sendMessage(ancestor, WidgetMessage.FitRequest);
+
+    // If the dirty flag is still set, the parent was not resized.
+    // Trigger the required update on the parent widget immediately.
+    if (this._dirty) sendMessage(this.parent, WidgetMessage.UpdateRequest);
+  }
+
+  /**
+   * Update the layout position and size of the widgets.
+   *
+   * The parent offset dimensions should be `-1` if unknown.
+   */
+  private _update(offsetWidth: number, offsetHeight: number): void {
+    // Clear the dirty flag to indicate the update occurred.
+    this._dirty = false;
+
+    // Bail early if there are no widgets to layout.
+    let widgets = this.widgets;
+    if (widgets.length === 0) {
+      return;
+    }
+
+    // Measure the parent if the offset dimensions are unknown.
+    if (offsetWidth < 0) {
+      offsetWidth = this.parent.node.offsetWidth;
+    }
+    if (offsetHeight < 0) {
+      offsetHeight = this.parent.node.offsetHeight;
+    }
+
+    // Ensure the parent box sizing data is computed.
+    let box = this._box || (this._box = boxSizing(this.parent.node));
+
+    // Compute the layout area adjusted for border and padding.
+    let top = box.paddingTop;
+    let left = box.paddingLeft;
+    let width = offsetWidth - box.horizontalSum;
+    let height = offsetHeight - box.verticalSum;
+
+    // Distribute the layout space to the track sizers.
+    boxCalc(this._rowSizers, Math.max(0, height - this._fixedH));
+    boxCalc(this._columnSizers, Math.max(0, width - this._fixedW));
+
+    // Compute the start offsets of the tracks.
+    let rowOffsets = Private.trackOffsets(this._rowSizers, top, this._rowSpacing);
+    let colOffsets = Private.trackOffsets(this._columnSizers, left, this._columnSpacing);
+
+    // Layout the widgets into their grid cells.
+    for (let i = 0, n = widgets.length; i < n; ++i) {
+      let widget = widgets.at(i);
+      if (widget.isHidden) {
+        continue;
+      }
+      let cell = Private.createCell(widget, this.rowCount, this.columnCount);
+      let r1 = cell.row + cell.rowSpan - 1;
+      let c1 = cell.column + cell.columnSpan - 1;
+      let y = rowOffsets[cell.row];
+      let x = colOffsets[cell.column];
+      let h = rowOffsets[r1] + this._rowSizers.at(r1).size - y;
+      let w = colOffsets[c1] + this._columnSizers.at(c1).size - x;
+      setGeometry(widget, x, y, w, h);
+    }
+  }
+
+  private _fixedW = 0;
+  private _fixedH = 0;
+  private _dirty = false;
+  private _rowSpacing = 4;
+  private _columnSpacing = 4;
+  private _box: IBoxSizing = null;
+  private _rowDefs = Private.normalizeDefinitions([]);
+  private _columnDefs = Private.normalizeDefinitions([]);
+  private _rowSizers = Private.createSizers(1);
+  private _columnSizers = Private.createSizers(1);
+}
+
+
+/**
+ * The namespace for the `GridLayout` class statics.
+ */
+export
+namespace GridLayout {
+  /**
+   * Get the grid layout row index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid layout row index for the widget.
+   */
+  export
+  function getRow(widget: Widget): number {
+    return Private.rowProperty.get(widget);
+  }
+
+  /**
+   * Set the grid layout row index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the row index.
+   */
+  export
+  function setRow(widget: Widget, value: number): void {
+    Private.rowProperty.set(widget, value);
+  }
+
+  /**
+   * Get the grid layout column index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid layout column index for the widget.
+   */
+  export
+  function getColumn(widget: Widget): number {
+    return Private.columnProperty.get(widget);
+  }
+
+  /**
+   * Set the grid layout column index for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the column index.
+   */
+  export
+  function setColumn(widget: Widget, value: number): void {
+    Private.columnProperty.set(widget, value);
+  }
+
+  /**
+   * Get the grid layout row span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid layout row span for the widget.
+   */
+  export
+  function getRowSpan(widget: Widget): number {
+    return Private.rowSpanProperty.get(widget);
+  }
+
+  /**
+   * Set the grid layout row span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the row span.
+   */
+  export
+  function setRowSpan(widget: Widget, value: number): void {
+    Private.rowSpanProperty.set(widget, value);
+  }
+
+  /**
+   * Get the grid layout column span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns The grid layout column span for the widget.
+   */
+  export
+  function getColumnSpan(widget: Widget): number {
+    return Private.columnSpanProperty.get(widget);
+  }
+
+  /**
+   * Set the grid layout column span for the given widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - The value for the column span.
+   */
+  export
+  function setColumnSpan(widget: Widget, value: number): void {
+    Private.columnSpanProperty.set(widget, value);
+  }
+}
+
+
+/**
+ * The namespace for the private module data.
+ */
+namespace Private {
+  /**
+   * An object which holds the clamped cell data for a widget.
+   */
+  export
+  interface ICellData {
+    /**
+     * The first row of the cell.
+     */
+    row: number;
+
+    /**
+     * The first column of the cell.
+     */
+    column: number;
+
+    /**
+     * The number of rows spanned by the cell.
+     */
+    rowSpan: number;
+
+    /**
+     * The number of columns spanned by the cell.
+     */
+    columnSpan: number;
+
+    /**
+     * The minimum width of the cell widget.
+     */
+    minWidth: number;
+
+    /**
+     * The minimum height of the cell widget.
+     */
+    minHeight: number;
+  }
+
+  /**
+   * A flag indicating whether the browser is IE.
+   */
+  export
+  const IsIE = /Trident/.test(navigator.userAgent);
+
+  /**
+   * The property descriptor for a widget row index.
+   */
+  export
+  const rowProperty = new AttachedProperty<Widget, number>({
+    name: 'row',
+    value: 0,
+    coerce: (owner, value) => Math.max(0, Math.floor(value)),
+    changed: onChildPropertyChanged
+  });
+
+  /**
+   * The property descriptor for a widget column index.
+   */
+  export
+  const columnProperty = new AttachedProperty<Widget, number>({
+    name: 'column',
+    value: 0,
+    coerce: (owner, value) => Math.max(0, Math.floor(value)),
+    changed: onChildPropertyChanged
+  });
+
+  /**
+   * The property descriptor for a widget row span.
+   */
+  export
+  const rowSpanProperty = new AttachedProperty<Widget, number>({
+    name: 'rowSpan',
+    value: 1,
+    coerce: (owner, value) => Math.max(1, Math.floor(value)),
+    changed: onChildPropertyChanged
+  });
+
+  /**
+   * The property descriptor for a widget column span.
+   */
+  export
+  const columnSpanProperty = new AttachedProperty<Widget, number>({
+    name: 'columnSpan',
+    value: 1,
+    coerce: (owner, value) => Math.max(1, Math.floor(value)),
+    changed: onChildPropertyChanged
+  });
+
+  /**
+   * Create a normalized copy of an array of track definitions.
+   */
+  export
+  function normalizeDefinitions(defs: ITrackDefinition[]): ITrackDefinition[] {
+    let result = defs.map(copyDefinition);
+    if (result.length === 0) result.push(copyDefinition({}));
+    return result;
+  }
+
+  /**
+   * Create a complete copy of a track definition.
+   */
+  export
+  function copyDefinition(def: ITrackDefinition): ITrackDefinition {
+    let sizer = new BoxSizer();
+    return {
+      sizeHint: Math.max(0, def.sizeHint || sizer.sizeHint),
+      minSize: Math.max(0, def.minSize || sizer.minSize),
+      maxSize: def.maxSize !== void 0 ? Math.max(0, def.maxSize) : sizer.maxSize,
+      stretch: Math.max(0, Math.floor(def.stretch || sizer.stretch))
+    };
+  }
+
+  /**
+   * Create a new vector of the given number of box sizers.
+   */
+  export
+  function createSizers(count: number): Vector<BoxSizer> {
+    let sizers = new Vector<BoxSizer>();
+    resizeSizers(sizers, count);
+    return sizers;
+  }
+
+  /**
+   * Add or remove box sizers to match the given count.
+   */
+  export
+  function resizeSizers(sizers: Vector<BoxSizer>, count: number): void {
+    while (sizers.length < count) sizers.pushBack(new BoxSizer());
+    while (sizers.length > count) sizers.popBack();
+  }
+
+  /**
+   * Reset the box sizers to the values of their track definitions.
+   */
+  export
+  function resetSizers(sizers: Vector<BoxSizer>, defs: ITrackDefinition[]): void {
+    for (let i = 0, n = sizers.length; i < n; ++i) {
+      let def = defs[i];
+      let sizer = sizers.at(i);
+      sizer.sizeHint = def.sizeHint;
+      sizer.minSize = def.minSize;
+      sizer.maxSize = def.maxSize;
+      sizer.stretch = def.stretch;
+    }
+  }
+
+  /**
+   * Create the clamped cell data for a widget.
+   */
+  export
+  function createCell(widget: Widget, rowCount: number, columnCount: number): ICellData {
+    let row = Math.min(GridLayout.getRow(widget), rowCount - 1);
+    let column = Math.min(GridLayout.getColumn(widget), columnCount - 1);
+    let rowSpan = Math.min(GridLayout.getRowSpan(widget), rowCount - row);
+    let columnSpan = Math.min(GridLayout.getColumnSpan(widget), columnCount - column);
+    return { row, column, rowSpan, columnSpan, minWidth: 0, minHeight: 0 };
+  }
+
+  /**
+   * Grow the minimum size of a track sizer to the given size.
+   */
+  export
+  function growMinSize(sizers: Vector<BoxSizer>, index: number, size: number): void {
+    let sizer = sizers.at(index);
+    sizer.minSize = Math.max(sizer.minSize, size);
+  }
+
+  /**
+   * Distribute a minimum size evenly over a span of track sizers.
+   *
+   * The tracks are only grown by the size not already covered by the
+   * existing minimum sizes and the spacing between the tracks.
+   */
+  export
+  function distributeMinSize(sizers: Vector<BoxSizer>, start: number, span: number, spacing: number, size: number): void {
+    let total = spacing * (span - 1);
+    for (let i = start, n = start + span; i < n; ++i) {
+      total += sizers.at(i).minSize;
+    }
+    if (total >= size) {
+      return;
+    }
+    let delta = (size - total) / span;
+    for (let i = start, n = start + span; i < n; ++i) {
+      sizers.at(i).minSize += delta;
+    }
+  }
+
+  /**
+   * Compute the start offsets of the track sizers.
+   */
+  export
+  function trackOffsets(sizers: Vector<BoxSizer>, start: number, spacing: number): number[] {
+    let offsets: number[] = [];
+    each(sizers, sizer => {
+      offsets.push(start);
+      start += sizer.size + spacing;
+    });
+    return offsets;
+  }
+
+  /**
+   * The change handler for the attached child properties.
+   */
+  function onChildPropertyChanged(child: Widget): void {
+    let parent = child.parent;
+    let layout = parent && parent.layout;
+    if (layout instanceof GridLayout) parent.fit();
+  }
+}
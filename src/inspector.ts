@@ -0,0 +1,486 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  each
+} from 'phosphor-core/lib/iteration';
+
+import {
+  IDisposable
+} from 'phosphor-core/lib/disposable';
+
+import {
+  IMessageHandler, Message, installMessageHook, removeMessageHook
+} from 'phosphor-core/lib/messaging';
+
+import {
+  ISignal, clearSignalData, defineSignal
+} from 'phosphor-core/lib/signaling';
+
+import {
+  getGeometry
+} from './layoututil';
+
+import {
+  ChildMessage, ResizeMessage, Widget, WidgetFlag
+} from './widget';
+
+
+/**
+ * The class name added to the debug overlay node.
+ */
+const OVERLAY_CLASS = 'p-DebugOverlay';
+
+/**
+ * The class name added to a debug overlay widget box.
+ */
+const BOX_CLASS = 'p-DebugOverlay-box';
+
+/**
+ * The class name added to a debug overlay widget label.
+ */
+const LABEL_CLASS = 'p-DebugOverlay-label';
+
+/**
+ * The class name added to a box for a hidden widget.
+ */
+const HIDDEN_CLASS = 'p-mod-hidden';
+
+
+/**
+ * An object which records a message delivered to a widget.
+ */
+export
+interface IMessageRecord {
+  /**
+   * The sequence number of the record.
+   *
+   * #### Notes
+   * Sequence numbers increase across all widgets in an inspector, so
+   * they give the global order in which the messages were handled.
+   */
+  sequence: number;
+
+  /**
+   * The widget which received the message.
+   */
+  widget: Widget;
+
+  /**
+   * The type of the message.
+   */
+  type: string;
+
+  /**
+   * A human readable detail string for the message.
+   *
+   * #### Notes
+   * This holds the size for `'resize'` messages and the child class
+   * for child messages. It is an empty string otherwise.
+   */
+  detail: string;
+}
+
+
+/**
+ * An object which records the messages delivered to widgets.
+ *
+ * #### Notes
+ * The inspector is opt-in: only widgets which are added to it are
+ * recorded. Adding a widget subtree is done with [[addTree]].
+ *
+ * The messages are recorded as they are delivered, before they are
+ * handled by `Widget.processMessage`.
+ */
+export
+class MessageInspector implements IDisposable {
+  /**
+   * Construct a new message inspector.
+   *
+   * @param options - The options for initializing the inspector.
+   */
+  constructor(options: MessageInspector.IOptions = {}) {
+    if (options.types !== void 0) {
+      this._types = options.types.slice();
+    }
+    if (options.maxRecords !== void 0) {
+      this._maxRecords = Math.max(0, options.maxRecords);
+    }
+  }
+
+  /**
+   * Dispose of the resources held by the inspector.
+   */
+  dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+    this._disposed = true;
+    this._widgets.forEach(widget => {
+      removeMessageHook(widget, this._hook);
+    });
+    this._widgets = [];
+    this._records = [];
+    clearSignalData(this);
+  }
+
+  /**
+   * A signal emitted when a message is recorded.
+   */
+  messageRecorded: ISignal<MessageInspector, IMessageRecord>;
+
+  /**
+   * Test whether the inspector is disposed.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * Get the records for the inspected widgets.
+   *
+   * @param widget - The widget of interest, or `null` for all widgets.
+   *
+   * @returns A new array of the records, in the order the messages
+   *   were delivered.
+   *
+   * #### Notes
+   * Only the most recent `maxRecords` records are retained.
+   */
+  records(widget: Widget = null): IMessageRecord[] {
+    if (!widget) {
+      return this._records.slice();
+    }
+    return this._records.filter(record => record.widget === widget);
+  }
+
+  /**
+   * Clear the recorded messages.
+   */
+  clear(): void {
+    this._records = [];
+  }
+
+  /**
+   * Test whether a widget is inspected.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns `true` if the widget is inspected, `false` otherwise.
+   */
+  has(widget: Widget): boolean {
+    return this._widgets.indexOf(widget) !== -1;
+  }
+
+  /**
+   * Start recording the messages delivered to a widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * #### Notes
+   * If the widget is already inspected, this is a no-op.
+   */
+  add(widget: Widget): void {
+    if (this._disposed || this.has(widget)) {
+      return;
+    }
+    this._widgets.push(widget);
+    installMessageHook(widget, this._hook);
+  }
+
+  /**
+   * Start recording the messages delivered to a widget subtree.
+   *
+   * @param widget - The root widget of the subtree.
+   *
+   * #### Notes
+   * Only the widgets in the subtree at the time of the call are added.
+   */
+  addTree(widget: Widget): void {
+    Private.walk(widget, child => { this.add(child); });
+  }
+
+  /**
+   * Stop recording the messages delivered to a widget.
+   *
+   * @param widget - The widget of interest.
+   *
+   * #### Notes
+   * The existing records for the widget are retained.
+   *
+   * If the widget is not inspected, this is a no-op.
+   */
+  remove(widget: Widget): void {
+    let i = this._widgets.indexOf(widget);
+    if (i === -1) {
+      return;
+    }
+    this._widgets.splice(i, 1);
+    removeMessageHook(widget, this._hook);
+  }
+
+  /**
+   * The message hook installed on the inspected widgets.
+   */
+  private _hook = (handler: IMessageHandler, msg: Message): boolean => {
+    // Bail if the message type is filtered out.
+    if (this._types && this._types.indexOf(msg.type) === -1) {
+      return true;
+    }
+
+    // Create and store the record, dropping the oldest if needed.
+    let record: IMessageRecord = {
+      sequence: this._sequence++,
+      widget: handler as Widget,
+      type: msg.type,
+      detail: Private.messageDetail(msg)
+    };
+    this._records.push(record);
+    if (this._records.length > this._maxRecords) {
+      this._records.shift();
+    }
+
+    // Notify the record and allow the message to be processed.
+    this.messageRecorded.emit(record);
+    return true;
+  };
+
+  private _sequence = 0;
+  private _disposed = false;
+  private _maxRecords = 1000;
+  private _types: string[] = null;
+  private _widgets: Widget[] = [];
+  private _records: IMessageRecord[] = [];
+}
+
+
+// Define the signals for the `MessageInspector` class.
+defineSignal(MessageInspector.prototype, 'messageRecorded');
+
+
+/**
+ * The namespace for the `MessageInspector` class statics.
+ */
+export
+namespace MessageInspector {
+  /**
+   * An options object for initializing a message inspector.
+   */
+  export
+  interface IOptions {
+    /**
+     * The message types to record, or `undefined` for all types.
+     */
+    types?: string[];
+
+    /**
+     * The maximum number of records to retain.
+     *
+     * The default is `1000`.
+     */
+    maxRecords?: number;
+  }
+}
+
+
+/**
+ * A development overlay which outlines the widgets in a subtree.
+ *
+ * #### Notes
+ * Each widget node is outlined and labeled with the widget class, the
+ * widget flags, the geometry set by its parent layout, and the class
+ * of its own layout.
+ *
+ * The overlay is a snapshot. It is re-rendered on window resize and
+ * on calls to [[refresh]].
+ */
+export
+class DebugOverlay implements IDisposable {
+  /**
+   * Construct a new debug overlay.
+   *
+   * @param widget - The root widget of the subtree to outline.
+   */
+  constructor(widget: Widget) {
+    this._widget = widget;
+    this._node = document.createElement('div');
+    this._node.className = OVERLAY_CLASS;
+    document.body.appendChild(this._node);
+    window.addEventListener('resize', this);
+    this.refresh();
+  }
+
+  /**
+   * Dispose of the resources held by the overlay.
+   */
+  dispose(): void {
+    if (this._widget === null) {
+      return;
+    }
+    this._widget = null;
+    window.removeEventListener('resize', this);
+    if (this._frameID !== -1) {
+      cancelAnimationFrame(this._frameID);
+      this._frameID = -1;
+    }
+    let parent = this._node.parentNode;
+    if (parent) parent.removeChild(this._node);
+  }
+
+  /**
+   * Test whether the overlay is disposed.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isDisposed(): boolean {
+    return this._widget === null;
+  }
+
+  /**
+   * Get the DOM node for the overlay.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get node(): HTMLElement {
+    return this._node;
+  }
+
+  /**
+   * Schedule a render of the overlay on the next animation frame.
+   *
+   * #### Notes
+   * Multiple calls within the same frame are conflated.
+   */
+  refresh(): void {
+    if (this._widget === null || this._frameID !== -1) {
+      return;
+    }
+    this._frameID = requestAnimationFrame(() => {
+      this._frameID = -1;
+      this._render();
+    });
+  }
+
+  /**
+   * Handle the DOM events for the debug overlay.
+   *
+   * @param event - The DOM event sent to the overlay.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the window. It should not be
+   * called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    if (event.type === 'resize') {
+      this.refresh();
+    }
+  }
+
+  /**
+   * Render a box for each widget in the subtree.
+   */
+  private _render(): void {
+    this._node.textContent = '';
+    if (!this._widget.isAttached) {
+      return;
+    }
+    Private.walk(this._widget, widget => {
+      this._node.appendChild(Private.createBox(widget));
+    });
+  }
+
+  private _frameID = -1;
+  private _widget: Widget;
+  private _node: HTMLElement;
+}
+
+
+/**
+ * The namespace for the private module data.
+ */
+namespace Private {
+  /**
+   * The widget flags in display order.
+   */
+  const flags = [
+    WidgetFlag.IsDisposed,
+    WidgetFlag.IsAttached,
+    WidgetFlag.IsHidden,
+    WidgetFlag.IsVisible,
+    WidgetFlag.DisallowLayout
+  ];
+
+  /**
+   * Invoke a function for a widget and its descendants, depth first.
+   */
+  export
+  function walk(widget: Widget, fn: (widget: Widget) => void): void {
+    fn(widget);
+    if (widget.layout) each(widget.layout, child => { walk(child, fn); });
+  }
+
+  /**
+   * Create the detail string for a message.
+   */
+  export
+  function messageDetail(msg: Message): string {
+    if (msg instanceof ResizeMessage) {
+      return `${msg.width}x${msg.height}`;
+    }
+    if (msg instanceof ChildMessage) {
+      return className(msg.child);
+    }
+    return '';
+  }
+
+  /**
+   * Create an overlay box for the given widget.
+   */
+  export
+  function createBox(widget: Widget): HTMLElement {
+    let box = document.createElement('div');
+    box.className = BOX_CLASS;
+    if (widget.isHidden) box.classList.add(HIDDEN_CLASS);
+    let rect = widget.node.getBoundingClientRect();
+    box.style.top = `${rect.top}px`;
+    box.style.left = `${rect.left}px`;
+    box.style.width = `${rect.width}px`;
+    box.style.height = `${rect.height}px`;
+    let label = document.createElement('span');
+    label.className = LABEL_CLASS;
+    label.textContent = describe(widget);
+    box.appendChild(label);
+    return box;
+  }
+
+  /**
+   * Create the label text for the given widget.
+   */
+  function describe(widget: Widget): string {
+    let names: string[] = [];
+    for (let i = 0; i < flags.length; ++i) {
+      if (widget.testFlag(flags[i])) names.push(WidgetFlag[flags[i]]);
+    }
+    let geo = getGeometry(widget);
+    let rect = isNaN(geo.width) ? 'auto' : `${geo.left},${geo.top} ${geo.width}x${geo.height}`;
+    let layout = widget.layout ? className(widget.layout) : 'none';
+    return `${className(widget)} [${names.join(' ')}] ${rect} layout: ${layout}`;
+  }
+
+  /**
+   * Get the constructor name of an object.
+   */
+  function className(obj: any): string {
+    return (obj.constructor && obj.constructor.name) || 'Object';
+  }
+}
@@ -0,0 +1,507 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  DisposableDelegate, IDisposable
+} from 'phosphor-core/lib/disposable';
+
+import {
+  indexOf
+} from 'phosphor-core/lib/searching';
+
+import {
+  ISequence
+} from 'phosphor-core/lib/sequence';
+
+import {
+  Vector
+} from 'phosphor-core/lib/vector';
+
+import {
+  CommandRegistry
+} from './commandregistry';
+
+
+/**
+ * The timeout, in ms, for the next keystroke of a partial sequence.
+ */
+const CHORD_TIMEOUT = 1000;
+
+
+/**
+ * An object which binds a keystroke sequence to a command.
+ */
+export
+interface IKeyBinding {
+  /**
+   * The keystroke sequence for the binding.
+   *
+   * #### Notes
+   * Each keystroke is a `+` separated list of zero or more modifiers
+   * followed by a key, for example `'Ctrl+Shift+K'` or `'F5'`. The
+   * supported modifiers are `Accel`, `Alt`, `Cmd`, `Ctrl`, and `Shift`.
+   * `Accel` is `Cmd` on Mac and `Ctrl` on other platforms.
+   *
+   * A multi-keystroke sequence is matched as a chord, for example
+   * `['Ctrl+K', 'Ctrl+S']`.
+   */
+  keys: string[];
+
+  /**
+   * The CSS selector which scopes the binding.
+   *
+   * #### Notes
+   * The binding only matches a key event whose target, or one of its
+   * ancestors, matches the selector. Use `'body'` for a global binding.
+   */
+  selector: string;
+
+  /**
+   * The id of the command to execute for the binding.
+   */
+  command: string;
+
+  /**
+   * The arguments for the command.
+   */
+  args?: any;
+}
+
+
+/**
+ * An object which matches keyboard events to key bindings.
+ *
+ * #### Notes
+ * The keymap does not listen for events itself. The application should
+ * pass its `'keydown'` events to [[processKeydownEvent]], typically from
+ * a listener installed on the document.
+ *
+ * When several bindings match, the binding whose selector matches the
+ * element nearest to the event target wins. Ties at the same element
+ * are resolved in favor of the most recently added binding.
+ */
+export
+class Keymap {
+  /**
+   * Construct a new keymap.
+   *
+   * @param commands - The command registry used to execute bindings.
+   */
+  constructor(commands: CommandRegistry) {
+    this._commands = commands;
+  }
+
+  /**
+   * The command registry used by the keymap.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get commands(): CommandRegistry {
+    return this._commands;
+  }
+
+  /**
+   * A read-only sequence of the key bindings in the keymap.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get bindings(): ISequence<IKeyBinding> {
+    return this._bindings;
+  }
+
+  /**
+   * Add a key binding to the keymap.
+   *
+   * @param binding - The key binding to add to the keymap.
+   *
+   * @returns A disposable which will remove the binding.
+   *
+   * #### Notes
+   * The keystrokes of the binding are normalized when it is added.
+   *
+   * An error will be thrown if the binding has an empty keystroke
+   * sequence, an invalid keystroke, or an invalid selector.
+   */
+  addBinding(binding: IKeyBinding): IDisposable {
+    if (binding.keys.length === 0) {
+      throw new Error('Key binding must have at least one keystroke.');
+    }
+    if (!Private.isValidSelector(binding.selector)) {
+      throw new Error(`Invalid key binding selector: '${binding.selector}'.`);
+    }
+    let normalized: IKeyBinding = {
+      keys: binding.keys.map(Private.normalizeKeystroke),
+      selector: binding.selector,
+      command: binding.command,
+      args: binding.args !== void 0 ? binding.args : null
+    };
+    this._bindings.pushBack(normalized);
+    return new DisposableDelegate(() => {
+      let i = indexOf(this._bindings, normalized);
+      if (i !== -1) this._bindings.remove(i);
+    });
+  }
+
+  /**
+   * Process a `'keydown'` event and execute the matching binding.
+   *
+   * @param event - The event object for a `'keydown'` event.
+   *
+   * #### Notes
+   * A keystroke which is a prefix of a longer sequence is held until
+   * the next keystroke or until the chord timeout expires. An exact
+   * match which is also a prefix is executed on the timeout, or when
+   * a following keystroke breaks the sequence. A keystroke which
+   * breaks a sequence is then processed as the start of a new one.
+   *
+   * The event is stopped if it is consumed by the keymap.
+   *
+   * Only bindings for enabled commands are matched.
+   */
+  processKeydownEvent(event: KeyboardEvent): void {
+    // Get the normalized keystroke for the event.
+    let keystroke = Private.keystrokeForEvent(event);
+
+    // Ignore the event if it is only a modifier key press.
+    if (!keystroke) {
+      return;
+    }
+
+    // Add the keystroke to the pending sequence.
+    this._clearTimer();
+    this._sequence.push(keystroke);
+
+    // Find the exact and partial matches for the sequence.
+    let { exact, partial } = this._match(event);
+
+    // Handle a sequence which no longer matches any binding.
+    if (!exact && !partial) {
+      // Take the pending exact match and reset the sequence.
+      let pending = this._exact;
+      let replay = this._sequence.length > 1;
+      this._clearPending();
+
+      // Execute the exact match held for the failed chord.
+      if (pending) this._execute(pending);
+
+      // Retry the keystroke as the start of a new sequence.
+      if (replay) this.processKeydownEvent(event);
+      return;
+    }
+
+    // Consume the event since it matches a binding.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Execute an exact match which is not also a partial match.
+    if (!partial) {
+      this._clearPending();
+      this._execute(exact);
+      return;
+    }
+
+    // Otherwise, hold the sequence and wait for the next keystroke.
+    this._exact = exact;
+    this._timer = setTimeout(() => {
+      this._timer = 0;
+      let binding = this._exact;
+      this._clearPending();
+      if (binding) this._execute(binding);
+    }, CHORD_TIMEOUT);
+  }
+
+  /**
+   * Find the best exact match and test for a partial match.
+   */
+  private _match(event: KeyboardEvent): Private.IMatchResult {
+    let exact: IKeyBinding = null;
+    let partial = false;
+    let sequence = this._sequence;
+    let bindings = this._bindings;
+    let target = event.target as Element;
+
+    // Walk from the event target to find the nearest matching element.
+    for (let node = target; node; node = node.parentElement) {
+      for (let i = bindings.length - 1; i >= 0; --i) {
+        let binding = bindings.at(i);
+        if (!Private.matchesSelector(node, binding.selector)) {
+          continue;
+        }
+        if (!this._commands.isEnabled(binding.command, binding.args)) {
+          continue;
+        }
+        let match = Private.matchSequence(binding.keys, sequence);
+        if (match === Private.SequenceMatch.Exact && !exact) {
+          exact = binding;
+        } else if (match === Private.SequenceMatch.Partial) {
+          partial = true;
+        }
+      }
+      if (exact) {
+        break;
+      }
+    }
+
+    return { exact, partial };
+  }
+
+  /**
+   * Execute the command for a key binding.
+   */
+  private _execute(binding: IKeyBinding): void {
+    this._commands.execute(binding.command, binding.args);
+  }
+
+  /**
+   * Clear the pending keystroke sequence and exact match.
+   */
+  private _clearPending(): void {
+    this._clearTimer();
+    this._exact = null;
+    this._sequence.length = 0;
+  }
+
+  /**
+   * Clear the chord timer, if any.
+   */
+  private _clearTimer(): void {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = 0;
+    }
+  }
+
+  private _timer = 0;
+  private _sequence: string[] = [];
+  private _exact: IKeyBinding = null;
+  private _commands: CommandRegistry;
+  private _bindings = new Vector<IKeyBinding>();
+}
+
+
+/**
+ * The namespace for the `Keymap` class statics.
+ */
+export
+namespace Keymap {
+  /**
+   * Normalize a keystroke into its canonical form.
+   *
+   * @param keystroke - The keystroke to normalize.
+   *
+   * @returns The normalized keystroke.
+   *
+   * #### Notes
+   * The modifiers are deduplicated and sorted, and `Accel` is resolved
+   * for the current platform.
+   *
+   * An error will be thrown if the keystroke is invalid.
+   */
+  export
+  function normalizeKeystroke(keystroke: string): string {
+    return Private.normalizeKeystroke(keystroke);
+  }
+
+  /**
+   * Get the normalized keystroke for a keyboard event.
+   *
+   * @param event - The keyboard event of interest.
+   *
+   * @returns The normalized keystroke, or an empty string if the event
+   *   is a modifier-only key press or an unsupported key.
+   */
+  export
+  function keystrokeForEvent(event: KeyboardEvent): string {
+    return Private.keystrokeForEvent(event);
+  }
+}
+
+
+/**
+ * The namespace for the private module data.
+ */
+namespace Private {
+  /**
+   * The result of matching a keystroke sequence.
+   */
+  export
+  interface IMatchResult {
+    /**
+     * The best exact matching binding, or `null`.
+     */
+    exact: IKeyBinding;
+
+    /**
+     * Whether any binding is a partial match.
+     */
+    partial: boolean;
+  }
+
+  /**
+   * An enum of the results of matching a keystroke sequence.
+   */
+  export
+  enum SequenceMatch {
+    /**
+     * The binding does not match the sequence.
+     */
+    None,
+
+    /**
+     * The binding matches the sequence exactly.
+     */
+    Exact,
+
+    /**
+     * The sequence is a prefix of the binding.
+     */
+    Partial
+  }
+
+  /**
+   * A flag indicating whether the platform is Mac.
+   */
+  export
+  const IsMac = /Mac/.test(navigator.platform);
+
+  /**
+   * The canonical order of the keystroke modifiers.
+   */
+  const MODIFIERS = ['Alt', 'Cmd', 'Ctrl', 'Shift'];
+
+  /**
+   * A mapping of US keyboard key codes to key names.
+   */
+  const KEY_NAMES: { [keyCode: number]: string } = {
+    8: 'Backspace', 9: 'Tab', 13: 'Enter', 27: 'Escape', 32: 'Space',
+    33: 'PageUp', 34: 'PageDown', 35: 'End', 36: 'Home', 37: 'ArrowLeft',
+    38: 'ArrowUp', 39: 'ArrowRight', 40: 'ArrowDown', 45: 'Insert',
+    46: 'Delete', 186: ';', 187: '=', 188: ',', 189: '-', 190: '.',
+    191: '/', 192: '`', 219: '[', 220: '\\', 221: ']', 222: '\''
+  };
+
+  /**
+   * Get the key name for a key code.
+   *
+   * Returns an empty string for an unsupported key code.
+   */
+  function keyForKeyCode(keyCode: number): string {
+    if (keyCode >= 48 && keyCode <= 57) {  // 0 - 9
+      return String.fromCharCode(keyCode);
+    }
+    if (keyCode >= 65 && keyCode <= 90) {  // A - Z
+      return String.fromCharCode(keyCode);
+    }
+    if (keyCode >= 112 && keyCode <= 123) {  // F1 - F12
+      return `F${keyCode - 111}`;
+    }
+    return KEY_NAMES[keyCode] || '';
+  }
+
+  /**
+   * Test whether a key name is supported.
+   */
+  function isValidKey(key: string): boolean {
+    if (/^[A-Z0-9]$/.test(key) || /^F([1-9]|1[0-2])$/.test(key)) {
+      return true;
+    }
+    return Object.keys(KEY_NAMES).some(code => KEY_NAMES[Number(code)] === key);
+  }
+
+  /**
+   * Normalize a keystroke into its canonical form.
+   */
+  export
+  function normalizeKeystroke(keystroke: string): string {
+    let parts = keystroke.split('+').map(part => part.trim());
+    let key = parts.pop();
+    key = key.length === 1 ? key.toUpperCase() : key;
+    if (!isValidKey(key)) {
+      throw new Error(`Invalid keystroke: '${keystroke}'.`);
+    }
+    let mods: string[] = [];
+    for (let i = 0, n = parts.length; i < n; ++i) {
+      let mod = parts[i] === 'Accel' ? (IsMac ? 'Cmd' : 'Ctrl') : parts[i];
+      if (MODIFIERS.indexOf(mod) === -1) {
+        throw new Error(`Invalid keystroke modifier: '${parts[i]}'.`);
+      }
+      if (mods.indexOf(mod) === -1) mods.push(mod);
+    }
+    mods.sort((a, b) => MODIFIERS.indexOf(a) - MODIFIERS.indexOf(b));
+    mods.push(key);
+    return mods.join('+');
+  }
+
+  /**
+   * Get the normalized keystroke for a keyboard event.
+   */
+  export
+  function keystrokeForEvent(event: KeyboardEvent): string {
+    let key = keyForKeyCode(event.keyCode);
+    if (!key) {
+      return '';
+    }
+    let mods: string[] = [];
+    if (event.altKey) mods.push('Alt');
+    if (event.metaKey) mods.push('Cmd');
+    if (event.ctrlKey) mods.push('Ctrl');
+    if (event.shiftKey) mods.push('Shift');
+    mods.push(key);
+    return mods.join('+');
+  }
+
+  /**
+   * Match a binding keystroke sequence against a pending sequence.
+   */
+  export
+  function matchSequence(keys: string[], sequence: string[]): SequenceMatch {
+    if (keys.length < sequence.length) {
+      return SequenceMatch.None;
+    }
+    for (let i = 0, n = sequence.length; i < n; ++i) {
+      if (keys[i] !== sequence[i]) return SequenceMatch.None;
+    }
+    if (keys.length > sequence.length) {
+      return SequenceMatch.Partial;
+    }
+    return SequenceMatch.Exact;
+  }
+
+  /**
+   * Test whether a selector is a valid CSS selector.
+   */
+  export
+  function isValidSelector(selector: string): boolean {
+    try {
+      document.createDocumentFragment().querySelector(selector);
+    } catch (err) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * The element prototype, including the vendor prefixed functions.
+   */
+  interface IMatchesPrototype {
+    matches?: (selector: string) => boolean;
+    msMatchesSelector?: (selector: string) => boolean;
+    webkitMatchesSelector?: (selector: string) => boolean;
+  }
+
+  /**
+   * Test whether an element matches a CSS selector.
+   */
+  export
+  function matchesSelector(elem: Element, selector: string): boolean {
+    let proto = Element.prototype as IMatchesPrototype;
+    let fn = proto.matches || proto.msMatchesSelector || proto.webkitMatchesSelector;
+    return fn.call(elem, selector);
+  }
+}
@@ -0,0 +1,388 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  map, toArray
+} from 'phosphor-core/lib/iteration';
+
+import {
+  BoxPanel, Direction
+} from './boxpanel';
+
+import {
+  Orientation, SplitPanel
+} from './splitpanel';
+
+import {
+  TabPanel
+} from './tabpanel';
+
+import {
+  Widget
+} from './widget';
+
+
+/**
+ * A JSON-compatible object which holds the state of a widget tree.
+ *
+ * #### Notes
+ * The `type` field determines which of the concrete state interfaces
+ * describes the object: `'split'`, `'box'`, `'tab'`, or `'widget'`.
+ */
+export
+interface ILayoutState {
+  /**
+   * The type of the layout state object.
+   */
+  type: string;
+}
+
+
+/**
+ * The layout state of a leaf widget.
+ */
+export
+interface IWidgetState extends ILayoutState {
+  /**
+   * The id of the leaf widget.
+   *
+   * #### Notes
+   * This is passed to the widget resolver when restoring the layout.
+   */
+  id: string;
+}
+
+
+/**
+ * The layout state of a `SplitPanel`.
+ */
+export
+interface ISplitState extends ILayoutState {
+  /**
+   * The orientation of the split panel.
+   *
+   * #### Notes
+   * This is either `'horizontal'` or `'vertical'`.
+   */
+  orientation: string;
+
+  /**
+   * The inter-element spacing of the split panel.
+   */
+  spacing: number;
+
+  /**
+   * The sizes of the split panel children.
+   */
+  sizes: number[];
+
+  /**
+   * The split stretch factors of the split panel children.
+   */
+  stretch: number[];
+
+  /**
+   * The layout states of the split panel children.
+   */
+  children: ILayoutState[];
+}
+
+
+/**
+ * The layout state of a `BoxPanel`.
+ */
+export
+interface IBoxState extends ILayoutState {
+  /**
+   * The layout direction of the box panel.
+   *
+   * #### Notes
+   * This is one of `'left-to-right'`, `'right-to-left'`,
+   * `'top-to-bottom'`, or `'bottom-to-top'`.
+   */
+  direction: string;
+
+  /**
+   * The inter-element spacing of the box panel.
+   */
+  spacing: number;
+
+  /**
+   * The box stretch factors of the box panel children.
+   */
+  stretch: number[];
+
+  /**
+   * The box size basis values of the box panel children.
+   */
+  sizeBasis: number[];
+
+  /**
+   * The layout states of the box panel children.
+   */
+  children: ILayoutState[];
+}
+
+
+/**
+ * The layout state of a `TabPanel`.
+ */
+export
+interface ITabState extends ILayoutState {
+  /**
+   * The index of the current tab, or `-1` if there is no current tab.
+   */
+  currentIndex: number;
+
+  /**
+   * The layout states of the tab panel children, in tab order.
+   */
+  children: ILayoutState[];
+}
+
+
+/**
+ * A function which resolves a leaf widget from its saved id.
+ *
+ * @param id - The id of the leaf widget to resolve.
+ *
+ * @returns The widget for the id, or `null` if it cannot be resolved.
+ */
+export
+type WidgetResolver = (id: string) => Widget;
+
+
+/**
+ * Save the layout state of a widget tree.
+ *
+ * @param widget - The root widget of the tree.
+ *
+ * @returns A JSON-compatible snapshot of the widget tree structure.
+ *
+ * #### Notes
+ * `SplitPanel`, `BoxPanel`, and `TabPanel` widgets are walked into
+ * recursively. All other widgets are saved as leaves using their `id`,
+ * so leaf widgets should be given a unique id before saving.
+ *
+ * The leaf widgets themselves are not serialized.
+ */
+export
+function saveLayout(widget: Widget): ILayoutState {
+  if (widget instanceof SplitPanel) {
+    return Private.saveSplit(widget as SplitPanel);
+  }
+  if (widget instanceof BoxPanel) {
+    return Private.saveBox(widget as BoxPanel);
+  }
+  if (widget instanceof TabPanel) {
+    return Private.saveTab(widget as TabPanel);
+  }
+  return Private.saveWidget(widget);
+}
+
+
+/**
+ * Restore a widget tree from a saved layout state.
+ *
+ * @param state - A layout state created by [[saveLayout]].
+ *
+ * @param resolver - The function which resolves the leaf widgets.
+ *
+ * @returns The root widget of the restored tree, or `null` if the
+ *   root is a leaf widget which could not be resolved.
+ *
+ * #### Notes
+ * New container panels are created for the restored tree. Leaves which
+ * cannot be resolved are omitted from their parent container.
+ *
+ * An error will be thrown if the state contains an unknown type.
+ */
+export
+function restoreLayout(state: ILayoutState, resolver: WidgetResolver): Widget {
+  switch (state.type) {
+  case 'split':
+    return Private.restoreSplit(state as ISplitState, resolver);
+  case 'box':
+    return Private.restoreBox(state as IBoxState, resolver);
+  case 'tab':
+    return Private.restoreTab(state as ITabState, resolver);
+  case 'widget':
+    return resolver((state as IWidgetState).id) || null;
+  }
+  throw new Error(`Invalid layout state type: '${state.type}'.`);
+}
+
+
+/**
+ * The namespace for the private module data.
+ */
+namespace Private {
+  /**
+   * Save the layout state of a split panel.
+   */
+  export
+  function saveSplit(panel: SplitPanel): ISplitState {
+    let widgets = panel.widgets;
+    return {
+      type: 'split',
+      orientation: orientationToString(panel.orientation),
+      spacing: panel.spacing,
+      sizes: panel.sizes(),
+      stretch: toArray(map(widgets, w => SplitPanel.getStretch(w))),
+      children: toArray(map(widgets, saveLayout))
+    };
+  }
+
+  /**
+   * Save the layout state of a box panel.
+   */
+  export
+  function saveBox(panel: BoxPanel): IBoxState {
+    let widgets = panel.widgets;
+    return {
+      type: 'box',
+      direction: directionToString(panel.direction),
+      spacing: panel.spacing,
+      stretch: toArray(map(widgets, w => BoxPanel.getStretch(w))),
+      sizeBasis: toArray(map(widgets, w => BoxPanel.getSizeBasis(w))),
+      children: toArray(map(widgets, saveLayout))
+    };
+  }
+
+  /**
+   * Save the layout state of a tab panel.
+   */
+  export
+  function saveTab(panel: TabPanel): ITabState {
+    return {
+      type: 'tab',
+      currentIndex: panel.currentIndex,
+      children: toArray(map(panel.widgets, saveLayout))
+    };
+  }
+
+  /**
+   * Save the layout state of a leaf widget.
+   */
+  export
+  function saveWidget(widget: Widget): IWidgetState {
+    return { type: 'widget', id: widget.id };
+  }
+
+  /**
+   * Restore a split panel from its layout state.
+   */
+  export
+  function restoreSplit(state: ISplitState, resolver: WidgetResolver): SplitPanel {
+    let panel = new SplitPanel();
+    panel.orientation = orientationFromString(state.orientation);
+    panel.spacing = state.spacing;
+    let sizes: number[] = [];
+    for (let i = 0, n = state.children.length; i < n; ++i) {
+      let child = restoreLayout(state.children[i], resolver);
+      if (!child) {
+        continue;
+      }
+      SplitPanel.setStretch(child, state.stretch[i] || 0);
+      panel.addWidget(child);
+      sizes.push(state.sizes[i] || 0);
+    }
+    panel.setSizes(sizes);
+    return panel;
+  }
+
+  /**
+   * Restore a box panel from its layout state.
+   */
+  export
+  function restoreBox(state: IBoxState, resolver: WidgetResolver): BoxPanel {
+    let panel = new BoxPanel();
+    panel.direction = directionFromString(state.direction);
+    panel.spacing = state.spacing;
+    for (let i = 0, n = state.children.length; i < n; ++i) {
+      let child = restoreLayout(state.children[i], resolver);
+      if (!child) {
+        continue;
+      }
+      BoxPanel.setStretch(child, state.stretch[i] || 0);
+      BoxPanel.setSizeBasis(child, state.sizeBasis[i] || 0);
+      panel.addWidget(child);
+    }
+    return panel;
+  }
+
+  /**
+   * Restore a tab panel from its layout state.
+   */
+  export
+  function restoreTab(state: ITabState, resolver: WidgetResolver): TabPanel {
+    let panel = new TabPanel();
+    let current: Widget = null;
+    for (let i = 0, n = state.children.length; i < n; ++i) {
+      let child = restoreLayout(state.children[i], resolver);
+      if (!child) {
+        continue;
+      }
+      panel.addWidget(child);
+      if (i === state.currentIndex) current = child;
+    }
+    if (current) panel.currentWidget = current;
+    return panel;
+  }
+
+  /**
+   * Convert an orientation to its layout state string.
+   */
+  function orientationToString(value: Orientation): string {
+    return value === Orientation.Vertical ? 'vertical' : 'horizontal';
+  }
+
+  /**
+   * Convert a layout state string to an orientation.
+   */
+  function orientationFromString(value: string): Orientation {
+    switch (value) {
+    case 'horizontal':
+      return Orientation.Horizontal;
+    case 'vertical':
+      return Orientation.Vertical;
+    }
+    throw new Error(`Invalid split orientation: '${value}'.`);
+  }
+
+  /**
+   * Convert a direction to its layout state string.
+   */
+  function directionToString(value: Direction): string {
+    switch (value) {
+    case Direction.LeftToRight:
+      return 'left-to-right';
+    case Direction.RightToLeft:
+      return 'right-to-left';
+    case Direction.BottomToTop:
+      return 'bottom-to-top';
+    }
+    return 'top-to-bottom';
+  }
+
+  /**
+   * Convert a layout state string to a direction.
+   */
+  function directionFromString(value: string): Direction {
+    switch (value) {
+    case 'left-to-right':
+      return Direction.LeftToRight;
+    case 'right-to-left':
+      return Direction.RightToLeft;
+    case 'top-to-bottom':
+      return Direction.TopToBottom;
+    case 'bottom-to-top':
+      return Direction.BottomToTop;
+    }
+    throw new Error(`Invalid box direction: '${value}'.`);
+  }
+}
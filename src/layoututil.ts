@@ -18,6 +18,33 @@ import {
 } from './widget';
 
 
+/**
+ * An object which represents an offset rect.
+ */
+export
+interface IRect {
+  /**
+   * The offset top edge, in pixels.
+   */
+  top: number;
+
+  /**
+   * The offset left edge, in pixels.
+   */
+  left: number;
+
+  /**
+   * The offset width, in pixels.
+   */
+  width: number;
+
+  /**
+   * The offset height, in pixels.
+   */
+  height: number;
+}
+
+
 /**
  * Prepare a widget for absolute layout geometry.
  *
@@ -107,36 +134,28 @@ function setGeometry(widget: Widget, left: number, top: number, width: number, h
 }
 
 
+/**
+ * Get the absolute layout geometry of a widget.
+ *
+ * @param widget - The widget of interest.
+ *
+ * @returns A new rect holding the geometry most recently set with
+ *   [[setGeometry]]. The values are `NaN` if no geometry is set.
+ *
+ * #### Notes
+ * This returns the cached geometry and **does not** measure the DOM.
+ */
+export
+function getGeometry(widget: Widget): IRect {
+  let rect = Private.rectProperty.get(widget);
+  return { top: rect.top, left: rect.left, width: rect.width, height: rect.height };
+}
+
+
 /**
  * The namespace for the private module data.
  */
 namespace Private {
-  /**
-   * An object which represents an offset rect.
-   */
-  export
-  interface IRect {
-    /**
-     * The offset top edge, in pixels.
-     */
-    top: number;
-
-    /**
-     * The offset left edge, in pixels.
-     */
-    left: number;
-
-    /**
-     * The offset width, in pixels.
-     */
-    width: number;
-
-    /**
-     * The offset height, in pixels.
-     */
-    height: number;
-  }
-
   /**
    * A property descriptor for a widget absolute geometry rect.
    */
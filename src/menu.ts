@@ -0,0 +1,1438 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  Message
+} from 'phosphor-core/lib/messaging';
+
+import {
+  findIndex, indexOf
+} from 'phosphor-core/lib/searching';
+
+import {
+  ISequence
+} from 'phosphor-core/lib/sequence';
+
+import {
+  ISignal, defineSignal
+} from 'phosphor-core/lib/signaling';
+
+import {
+  Vector
+} from 'phosphor-core/lib/vector';
+
+import {
+  boxSizing, hitTest
+} from './domutil';
+
+import {
+  Widget, WidgetFlag
+} from './widget';
+
+
+/**
+ * The class name added to Menu instances.
+ */
+const MENU_CLASS = 'p-Menu';
+
+/**
+ * The class name added to a menu content node.
+ */
+const CONTENT_CLASS = 'p-Menu-content';
+
+/**
+ * The class name added to a menu item node.
+ */
+const ITEM_CLASS = 'p-Menu-item';
+
+/**
+ * The class name added to a menu item icon node.
+ */
+const ICON_CLASS = 'p-Menu-itemIcon';
+
+/**
+ * The class name added to a menu item label node.
+ */
+const LABEL_CLASS = 'p-Menu-itemLabel';
+
+/**
+ * The class name added to a menu item shortcut node.
+ */
+const SHORTCUT_CLASS = 'p-Menu-itemShortcut';
+
+/**
+ * The class name added to a menu item submenu icon node.
+ */
+const SUBMENU_ICON_CLASS = 'p-Menu-itemSubmenuIcon';
+
+/**
+ * The class name added to a normal menu item.
+ */
+const NORMAL_TYPE_CLASS = 'p-type-normal';
+
+/**
+ * The class name added to a check menu item.
+ */
+const CHECK_TYPE_CLASS = 'p-type-check';
+
+/**
+ * The class name added to a separator menu item.
+ */
+const SEPARATOR_TYPE_CLASS = 'p-type-separator';
+
+/**
+ * The class name added to a submenu menu item.
+ */
+const SUBMENU_TYPE_CLASS = 'p-type-submenu';
+
+/**
+ * The class name added to the active menu item.
+ */
+const ACTIVE_CLASS = 'p-mod-active';
+
+/**
+ * The class name added to a disabled menu item.
+ */
+const DISABLED_CLASS = 'p-mod-disabled';
+
+/**
+ * The class name added to a checked menu item.
+ */
+const CHECKED_CLASS = 'p-mod-checked';
+
+/**
+ * The delay, in ms, before a hovered submenu is opened.
+ */
+const OPEN_DELAY = 300;
+
+/**
+ * The delay, in ms, before an unhovered submenu is closed.
+ */
+const CLOSE_DELAY = 300;
+
+/**
+ * The horizontal overlap, in px, of a submenu and its parent item.
+ */
+const SUBMENU_OVERLAP = 3;
+
+
+/**
+ * An enum of the supported menu item types.
+ */
+export
+enum MenuItemType {
+  /**
+   * A normal menu item which is triggered when clicked.
+   */
+  Normal,
+
+  /**
+   * A menu item which toggles its checked state when triggered.
+   */
+  Check,
+
+  /**
+   * A non-interactive line which separates groups of items.
+   */
+  Separator,
+
+  /**
+   * A menu item which opens a submenu.
+   */
+  Submenu
+}
+
+
+/**
+ * An options object for initializing a menu item.
+ */
+export
+interface IMenuItemOptions {
+  /**
+   * The type of the menu item.
+   *
+   * #### Notes
+   * If not provided, this will be `Submenu` when a `submenu` is given,
+   * and `Normal` otherwise.
+   */
+  type?: MenuItemType;
+
+  /**
+   * The label text for the menu item.
+   */
+  label?: string;
+
+  /**
+   * The icon class for the menu item.
+   */
+  icon?: string;
+
+  /**
+   * The shortcut text for the menu item.
+   */
+  shortcut?: string;
+
+  /**
+   * The extra class name for the menu item.
+   */
+  className?: string;
+
+  /**
+   * The checked state for the menu item.
+   */
+  checked?: boolean;
+
+  /**
+   * The disabled state for the menu item.
+   */
+  disabled?: boolean;
+
+  /**
+   * The submenu for the menu item.
+   */
+  submenu?: Menu;
+
+  /**
+   * The handler to invoke when the menu item is triggered.
+   */
+  handler?: (item: MenuItem) => void;
+}
+
+
+/**
+ * An object which holds the data for an item in a menu.
+ */
+export
+class MenuItem {
+  /**
+   * Construct a new menu item.
+   *
+   * @param options - The options for initializing the menu item.
+   */
+  constructor(options: IMenuItemOptions = {}) {
+    if (options.type !== void 0) {
+      this._type = options.type;
+    } else if (options.submenu) {
+      this._type = MenuItemType.Submenu;
+    }
+    if (options.label !== void 0) {
+      this._label = options.label;
+    }
+    if (options.icon !== void 0) {
+      this._icon = options.icon;
+    }
+    if (options.shortcut !== void 0) {
+      this._shortcut = options.shortcut;
+    }
+    if (options.className !== void 0) {
+      this._className = options.className;
+    }
+    if (options.checked !== void 0) {
+      this._checked = options.checked;
+    }
+    if (options.disabled !== void 0) {
+      this._disabled = options.disabled;
+    }
+    if (options.submenu !== void 0) {
+      this._submenu = options.submenu;
+    }
+    if (options.handler !== void 0) {
+      this._handler = options.handler;
+    }
+  }
+
+  /**
+   * A signal emitted when the state of the menu item changes.
+   */
+  changed: ISignal<MenuItem, void>;
+
+  /**
+   * Get the type of the menu item.
+   */
+  get type(): MenuItemType {
+    return this._type;
+  }
+
+  /**
+   * Set the type of the menu item.
+   */
+  set type(value: MenuItemType) {
+    if (this._type === value) {
+      return;
+    }
+    this._type = value;
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Get the label text for the menu item.
+   *
+   * #### Notes
+   * The default value is an empty string.
+   */
+  get label(): string {
+    return this._label;
+  }
+
+  /**
+   * Set the label text for the menu item.
+   */
+  set label(value: string) {
+    if (this._label === value) {
+      return;
+    }
+    this._label = value;
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Get the icon class name for the menu item.
+   *
+   * #### Notes
+   * The default value is an empty string.
+   */
+  get icon(): string {
+    return this._icon;
+  }
+
+  /**
+   * Set the icon class name for the menu item.
+   *
+   * #### Notes
+   * Multiple class names can be separated with whitespace.
+   */
+  set icon(value: string) {
+    if (this._icon === value) {
+      return;
+    }
+    this._icon = value;
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Get the shortcut text for the menu item.
+   *
+   * #### Notes
+   * The default value is an empty string.
+   *
+   * This text is for display only. It does not bind a key shortcut.
+   */
+  get shortcut(): string {
+    return this._shortcut;
+  }
+
+  /**
+   * Set the shortcut text for the menu item.
+   */
+  set shortcut(value: string) {
+    if (this._shortcut === value) {
+      return;
+    }
+    this._shortcut = value;
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Get the extra class name for the menu item.
+   *
+   * #### Notes
+   * The default value is an empty string.
+   */
+  get className(): string {
+    return this._className;
+  }
+
+  /**
+   * Set the extra class name for the menu item.
+   *
+   * #### Notes
+   * Multiple class names can be separated with whitespace.
+   */
+  set className(value: string) {
+    if (this._className === value) {
+      return;
+    }
+    this._className = value;
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Get the checked state for the menu item.
+   *
+   * #### Notes
+   * The default value is `false`.
+   */
+  get checked(): boolean {
+    return this._checked;
+  }
+
+  /**
+   * Set the checked state for the menu item.
+   *
+   * #### Notes
+   * This only has a visual effect for `Check` type items.
+   */
+  set checked(value: boolean) {
+    if (this._checked === value) {
+      return;
+    }
+    this._checked = value;
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Get the disabled state for the menu item.
+   *
+   * #### Notes
+   * The default value is `false`.
+   */
+  get disabled(): boolean {
+    return this._disabled;
+  }
+
+  /**
+   * Set the disabled state for the menu item.
+   *
+   * #### Notes
+   * A disabled menu item cannot be activated or triggered.
+   */
+  set disabled(value: boolean) {
+    if (this._disabled === value) {
+      return;
+    }
+    this._disabled = value;
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Get the submenu for the menu item.
+   *
+   * #### Notes
+   * The default value is `null`.
+   */
+  get submenu(): Menu {
+    return this._submenu;
+  }
+
+  /**
+   * Set the submenu for the menu item.
+   *
+   * #### Notes
+   * This only has an effect for `Submenu` type items.
+   */
+  set submenu(value: Menu) {
+    if (this._submenu === value) {
+      return;
+    }
+    this._submenu = value;
+    this.changed.emit(void 0);
+  }
+
+  /**
+   * Get the handler for the menu item.
+   *
+   * #### Notes
+   * The default value is `null`.
+   */
+  get handler(): (item: MenuItem) => void {
+    return this._handler;
+  }
+
+  /**
+   * Set the handler for the menu item.
+   *
+   * #### Notes
+   * The handler is invoked after the menu is closed.
+   */
+  set handler(value: (item: MenuItem) => void) {
+    this._handler = value;
+  }
+
+  private _label = '';
+  private _icon = '';
+  private _shortcut = '';
+  private _className = '';
+  private _checked = false;
+  private _disabled = false;
+  private _submenu: Menu = null;
+  private _type = MenuItemType.Normal;
+  private _handler: (item: MenuItem) => void = null;
+}
+
+
+// Define the signals for the `MenuItem` class.
+defineSignal(MenuItem.prototype, 'changed');
+
+
+/**
+ * A widget which displays menu items as a popup menu.
+ *
+ * #### Notes
+ * A root menu is shown with [[open]] and hidden with `close`. While a
+ * root menu is open, it installs document listeners which handle the
+ * keyboard navigation and close the menu on an outside press.
+ */
+export
+class Menu extends Widget {
+  /**
+   * Create the DOM node for a menu.
+   */
+  static createNode(): HTMLElement {
+    let node = document.createElement('div');
+    let content = document.createElement('ul');
+    content.className = CONTENT_CLASS;
+    content.setAttribute('role', 'menu');
+    node.appendChild(content);
+    return node;
+  }
+
+  /**
+   * Construct a new menu.
+   *
+   * @param factory - The factory for creating new menu item nodes.
+   */
+  constructor(factory: IMenuItemFactory = MenuItemFactory.instance) {
+    super();
+    this._factory = factory;
+    this.addClass(MENU_CLASS);
+    this.setFlag(WidgetFlag.DisallowLayout);
+  }
+
+  /**
+   * Dispose of the resources held by the menu.
+   */
+  dispose(): void {
+    this.close();
+    this._nodes.clear();
+    this._items.clear();
+    this._dirtyItems.clear();
+    this._factory = null;
+    super.dispose();
+  }
+
+  /**
+   * A signal emitted when the menu is closed.
+   *
+   * #### Notes
+   * This signal is emitted when an open menu is closed by the user or
+   * by a call to `close`.
+   */
+  closed: ISignal<Menu, void>;
+
+  /**
+   * A signal emitted when the user requests an adjacent menu.
+   *
+   * #### Notes
+   * This signal is emitted on the root menu when the `Left` or `Right`
+   * key is pressed and there is no submenu to close or to open. The
+   * argument is either `'previous'` or `'next'`.
+   *
+   * This is used by a menu bar to move to an adjacent menu.
+   */
+  menuRequested: ISignal<Menu, string>;
+
+  /**
+   * Get the menu content node.
+   *
+   * #### Notes
+   * This is the node which holds the menu item nodes.
+   *
+   * This is a read-only property.
+   */
+  get contentNode(): HTMLElement {
+    return this.node.getElementsByClassName(CONTENT_CLASS)[0] as HTMLElement;
+  }
+
+  /**
+   * Get the parent menu of the menu.
+   *
+   * #### Notes
+   * This will be `null` unless the menu is an open submenu.
+   *
+   * This is a read-only property.
+   */
+  get parentMenu(): Menu {
+    return this._parentMenu;
+  }
+
+  /**
+   * Get the open child menu of the menu.
+   *
+   * #### Notes
+   * This will be `null` if the menu does not have an open submenu.
+   *
+   * This is a read-only property.
+   */
+  get childMenu(): Menu {
+    return this._childMenu;
+  }
+
+  /**
+   * A read-only sequence of the items in the menu.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get items(): ISequence<MenuItem> {
+    return this._items;
+  }
+
+  /**
+   * Get the index of the active menu item.
+   *
+   * #### Notes
+   * This will be `-1` if no menu item is active.
+   */
+  get activeIndex(): number {
+    return this._activeIndex;
+  }
+
+  /**
+   * Set the index of the active menu item.
+   *
+   * #### Notes
+   * If the item cannot be activated, the index will be set to `-1`.
+   */
+  set activeIndex(value: number) {
+    let i = Math.floor(value);
+    if (i < 0 || i >= this._items.length) {
+      i = -1;
+    }
+    if (i !== -1 && !Private.isSelectable(this._items.at(i))) {
+      i = -1;
+    }
+    if (this._activeIndex === i) {
+      return;
+    }
+    this._activeIndex = i;
+    this.update();
+  }
+
+  /**
+   * Get the active menu item.
+   *
+   * #### Notes
+   * This will be `null` if no menu item is active.
+   *
+   * This is a read-only property.
+   */
+  get activeItem(): MenuItem {
+    let i = this._activeIndex;
+    return i !== -1 ? this._items.at(i) : null;
+  }
+
+  /**
+   * Add a menu item to the end of the menu.
+   *
+   * @param item - The menu item to add to the menu.
+   *
+   * #### Notes
+   * If the item is already added to the menu, it will be moved.
+   */
+  addItem(item: MenuItem): void {
+    this.insertItem(this._items.length, item);
+  }
+
+  /**
+   * Insert a menu item into the menu at the specified index.
+   *
+   * @param index - The index at which to insert the item.
+   *
+   * @param item - The menu item to insert into the menu.
+   *
+   * #### Notes
+   * The index will be clamped to the bounds of the items.
+   *
+   * If the item is already added to the menu, it will be moved.
+   */
+  insertItem(index: number, item: MenuItem): void {
+    // Close the child menu before making any changes.
+    this._closeChildMenu();
+
+    // Remove the item if it is already in the menu.
+    let i = indexOf(this._items, item);
+    if (i !== -1) this.removeItem(i);
+
+    // Clamp the insert index to the vector bounds.
+    let j = Math.max(0, Math.min(Math.floor(index), this._items.length));
+
+    // Create the new item node for the item.
+    let node = this._factory.createItemNode();
+    this._factory.updateItemNode(node, item);
+
+    // Insert the node and item into the vectors.
+    this._nodes.insert(j, node);
+    this._items.insert(j, item);
+
+    // Look up the next sibling node.
+    let ref = j + 1 < this._nodes.length ? this._nodes.at(j + 1) : null;
+
+    // Insert the node into the content node.
+    this.contentNode.insertBefore(node, ref);
+
+    // Connect to the item changed signal.
+    item.changed.connect(this._onItemChanged, this);
+
+    // Adjust the active index for the insert.
+    if (this._activeIndex >= j) this._activeIndex++;
+
+    // Schedule an update of the items.
+    this.update();
+  }
+
+  /**
+   * Remove the menu item at the specified index.
+   *
+   * @param index - The index of the menu item to remove.
+   *
+   * #### Notes
+   * If the index is out of range, this is a no-op.
+   */
+  removeItem(index: number): void {
+    // Bail if the index is out of range.
+    let i = Math.floor(index);
+    if (i < 0 || i >= this._items.length) {
+      return;
+    }
+
+    // Close the child menu before making any changes.
+    this._closeChildMenu();
+
+    // Look up the node and item.
+    let node = this._nodes.at(i);
+    let item = this._items.at(i);
+
+    // Remove the node and item from the vectors.
+    this._nodes.remove(i);
+    this._items.remove(i);
+
+    // Remove the node from the content node.
+    this.contentNode.removeChild(node);
+
+    // Disconnect from the item changed signal.
+    item.changed.disconnect(this._onItemChanged, this);
+    this._dirtyItems.delete(item);
+
+    // Adjust the active index for the removal.
+    if (this._activeIndex === i) {
+      this._activeIndex = -1;
+    } else if (this._activeIndex > i) {
+      this._activeIndex--;
+    }
+
+    // Schedule an update of the items.
+    this.update();
+  }
+
+  /**
+   * Remove all menu items from the menu.
+   */
+  clearItems(): void {
+    while (this._items.length > 0) {
+      this.removeItem(this._items.length - 1);
+    }
+  }
+
+  /**
+   * Activate the next selectable menu item.
+   *
+   * #### Notes
+   * The search wraps around at the end of the menu.
+   */
+  activateNextItem(): void {
+    let n = this._items.length;
+    for (let k = 1; k <= n; ++k) {
+      let i = (this._activeIndex + k + n) % n;
+      if (Private.isSelectable(this._items.at(i))) {
+        this.activeIndex = i;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Activate the previous selectable menu item.
+   *
+   * #### Notes
+   * The search wraps around at the start of the menu.
+   */
+  activatePreviousItem(): void {
+    let n = this._items.length;
+    let start = this._activeIndex === -1 ? n : this._activeIndex;
+    for (let k = 1; k <= n; ++k) {
+      let i = (start - k + n) % n;
+      if (Private.isSelectable(this._items.at(i))) {
+        this.activeIndex = i;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Trigger the active menu item.
+   *
+   * #### Notes
+   * A submenu item opens its submenu and activates its first item.
+   *
+   * Any other item closes the entire menu hierarchy, toggles its
+   * checked state if it is a `Check` item, and invokes its handler.
+   *
+   * If there is no active item, this is a no-op.
+   */
+  triggerActiveItem(): void {
+    // Bail if there is no active item.
+    let item = this.activeItem;
+    if (!item) {
+      return;
+    }
+
+    // Open the submenu of a submenu item.
+    if (item.type === MenuItemType.Submenu) {
+      this._openChildMenu();
+      if (this._childMenu) this._childMenu.activateNextItem();
+      return;
+    }
+
+    // Close the entire menu hierarchy.
+    Private.rootMenu(this).close();
+
+    // Toggle the checked state of a check item.
+    if (item.type === MenuItemType.Check) {
+      item.checked = !item.checked;
+    }
+
+    // Invoke the item handler.
+    if (item.handler) item.handler(item);
+  }
+
+  /**
+   * Open the menu at the specified location.
+   *
+   * @param x - The client X coordinate of the menu location.
+   *
+   * @param y - The client Y coordinate of the menu location.
+   *
+   * #### Notes
+   * The menu is attached to the document body and is adjusted as
+   * needed to fit within the viewport.
+   *
+   * If the menu is already open, this is a no-op.
+   */
+  open(x: number, y: number): void {
+    if (this.isAttached) {
+      return;
+    }
+    Private.openMenu(this, x, y);
+  }
+
+  /**
+   * Handle the DOM events for the menu.
+   *
+   * @param event - The DOM event sent to the menu.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the menu's DOM node.
+   *
+   * This should not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'keydown':
+      this._evtKeyDown(event as KeyboardEvent);
+      break;
+    case 'pointerdown':
+      this._evtPointerDown(event as PointerEvent);
+      break;
+    case 'pointerup':
+      this._evtPointerUp(event as PointerEvent);
+      break;
+    case 'pointermove':
+      this._evtPointerMove(event as PointerEvent);
+      break;
+    case 'pointerleave':
+      this._evtPointerLeave(event as PointerEvent);
+      break;
+    case 'contextmenu':
+      event.preventDefault();
+      event.stopPropagation();
+      break;
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    this.node.addEventListener('pointerup', this);
+    this.node.addEventListener('pointermove', this);
+    this.node.addEventListener('pointerleave', this);
+    this.node.addEventListener('contextmenu', this);
+    if (!this._parentMenu) {
+      document.addEventListener('keydown', this, true);
+      document.addEventListener('pointerdown', this, true);
+    }
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('pointerup', this);
+    this.node.removeEventListener('pointermove', this);
+    this.node.removeEventListener('pointerleave', this);
+    this.node.removeEventListener('contextmenu', this);
+    document.removeEventListener('keydown', this, true);
+    document.removeEventListener('pointerdown', this, true);
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    let nodes = this._nodes;
+    let items = this._items;
+    let factory = this._factory;
+    let dirtyItems = this._dirtyItems;
+    for (let i = 0, n = nodes.length; i < n; ++i) {
+      let node = nodes.at(i);
+      let item = items.at(i);
+      if (dirtyItems.has(item)) {
+        factory.updateItemNode(node, item);
+      }
+      if (i === this._activeIndex) {
+        node.classList.add(ACTIVE_CLASS);
+      } else {
+        node.classList.remove(ACTIVE_CLASS);
+      }
+    }
+    dirtyItems.clear();
+  }
+
+  /**
+   * A message handler invoked on a `'close-request'` message.
+   *
+   * #### Notes
+   * This closes the child menu and detaches the menu from the DOM.
+   */
+  protected onCloseRequest(msg: Message): void {
+    // Bail if the menu is not open.
+    if (!this.isAttached) {
+      return;
+    }
+
+    // Clear the pending timers and close the child menu.
+    this._cancelTimers();
+    this._closeChildMenu();
+
+    // Unlink the menu from its parent menu.
+    if (this._parentMenu) {
+      this._parentMenu._childMenu = null;
+      this._parentMenu = null;
+    }
+
+    // Reset the active item and detach the menu.
+    this.activeIndex = -1;
+    super.onCloseRequest(msg);
+
+    // Emit the closed signal.
+    this.closed.emit(void 0);
+  }
+
+  /**
+   * Handle the `'keydown'` event for the menu.
+   *
+   * #### Notes
+   * This listener is installed on the document by the root menu, and
+   * the key press is dispatched to the deepest open menu.
+   */
+  private _evtKeyDown(event: KeyboardEvent): void {
+    // Stop all input events while the menu is open.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Handle the key press in the deepest open menu.
+    let leaf = Private.leafMenu(this);
+    let item = leaf.activeItem;
+    switch (event.keyCode) {
+    case 13:  // Enter
+    case 32:  // Space
+      leaf.triggerActiveItem();
+      break;
+    case 27:  // Escape
+      leaf.close();
+      break;
+    case 37:  // Left
+      if (leaf._parentMenu) {
+        leaf.close();
+      } else {
+        this.menuRequested.emit('previous');
+      }
+      break;
+    case 38:  // Up
+      leaf.activatePreviousItem();
+      break;
+    case 39:  // Right
+      if (item && item.type === MenuItemType.Submenu) {
+        leaf.triggerActiveItem();
+      } else {
+        this.menuRequested.emit('next');
+      }
+      break;
+    case 40:  // Down
+      leaf.activateNextItem();
+      break;
+    }
+  }
+
+  /**
+   * Handle the `'pointerdown'` event for the menu.
+   *
+   * #### Notes
+   * This listener is installed on the document by the root menu.
+   */
+  private _evtPointerDown(event: PointerEvent): void {
+    // Close the menu if the press is outside the menu hierarchy.
+    let x = event.clientX;
+    let y = event.clientY;
+    if (!Private.hitTestMenus(this, x, y)) {
+      this.close();
+      return;
+    }
+
+    // Stop the propagation of presses within the menus.
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  /**
+   * Handle the `'pointerup'` event for the menu.
+   */
+  private _evtPointerUp(event: PointerEvent): void {
+    // Do nothing if it's not a left button release.
+    if (event.button !== 0) {
+      return;
+    }
+
+    // Stop the event propagation.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Trigger the item under the pointer, if any.
+    let x = event.clientX;
+    let y = event.clientY;
+    let i = findIndex(this._nodes, node => hitTest(node, x, y));
+    if (i === -1 || i !== this._activeIndex) {
+      return;
+    }
+
+    // Open a submenu immediately instead of after the hover delay.
+    if (this.activeItem.type === MenuItemType.Submenu) {
+      this._cancelTimers();
+      this._openChildMenu();
+      return;
+    }
+
+    // Trigger the active item.
+    this.triggerActiveItem();
+  }
+
+  /**
+   * Handle the `'pointermove'` event for the menu.
+   */
+  private _evtPointerMove(event: PointerEvent): void {
+    // Keep the parent item active while the pointer is in the menu.
+    if (this._parentMenu) this._parentMenu._syncChildItem();
+
+    // Bail if the active item has not changed.
+    let x = event.clientX;
+    let y = event.clientY;
+    let i = findIndex(this._nodes, node => hitTest(node, x, y));
+    if (i === this._activeIndex) {
+      return;
+    }
+
+    // Update the active item and clear the pending timers.
+    this.activeIndex = i;
+    this._cancelTimers();
+
+    // Schedule the child menu to close if it belongs to another item.
+    let item = this.activeItem;
+    let submenu = item && item.type === MenuItemType.Submenu ? item.submenu : null;
+    if (this._childMenu && this._childMenu !== submenu) {
+      this._closeTimer = setTimeout(() => {
+        this._closeTimer = 0;
+        this._closeChildMenu();
+      }, CLOSE_DELAY);
+    }
+
+    // Schedule the submenu of the active item to open.
+    if (submenu && submenu !== this._childMenu) {
+      this._openTimer = setTimeout(() => {
+        this._openTimer = 0;
+        this._openChildMenu();
+      }, OPEN_DELAY);
+    }
+  }
+
+  /**
+   * Handle the `'pointerleave'` event for the menu.
+   */
+  private _evtPointerLeave(event: PointerEvent): void {
+    // Cancel a pending submenu open.
+    if (this._openTimer) {
+      clearTimeout(this._openTimer);
+      this._openTimer = 0;
+    }
+
+    // Keep the active item if it owns the open child menu.
+    if (!this._childMenu) this.activeIndex = -1;
+  }
+
+  /**
+   * Open the submenu of the active item as the child menu.
+   */
+  private _openChildMenu(): void {
+    // Bail if the active item does not have a submenu.
+    let item = this.activeItem;
+    let submenu = item && item.type === MenuItemType.Submenu ? item.submenu : null;
+    if (!submenu) {
+      this._closeChildMenu();
+      return;
+    }
+
+    // Bail if the submenu is already open.
+    if (submenu === this._childMenu) {
+      return;
+    }
+
+    // Close the current child menu and any other use of the submenu.
+    this._closeChildMenu();
+    submenu.close();
+
+    // Link and open the submenu next to the active item node.
+    this._childMenu = submenu;
+    submenu._parentMenu = this;
+    Private.openSubmenu(submenu, this._nodes.at(this._activeIndex));
+  }
+
+  /**
+   * Close the child menu, if any.
+   */
+  private _closeChildMenu(): void {
+    if (this._childMenu) this._childMenu.close();
+  }
+
+  /**
+   * Activate the item which owns the child menu.
+   */
+  private _syncChildItem(): void {
+    if (this._closeTimer) {
+      clearTimeout(this._closeTimer);
+      this._closeTimer = 0;
+    }
+    let child = this._childMenu;
+    this.activeIndex = findIndex(this._items, item => item.submenu === child);
+  }
+
+  /**
+   * Cancel the pending submenu open and close timers.
+   */
+  private _cancelTimers(): void {
+    if (this._openTimer) {
+      clearTimeout(this._openTimer);
+      this._openTimer = 0;
+    }
+    if (this._closeTimer) {
+      clearTimeout(this._closeTimer);
+      this._closeTimer = 0;
+    }
+  }
+
+  /**
+   * Handle the `changed` signal of a menu item.
+   */
+  private _onItemChanged(sender: MenuItem): void {
+    this._dirtyItems.add(sender);
+    this.update();
+  }
+
+  private _openTimer = 0;
+  private _closeTimer = 0;
+  private _activeIndex = -1;
+  private _childMenu: Menu = null;
+  private _parentMenu: Menu = null;
+  private _factory: IMenuItemFactory;
+  private _items = new Vector<MenuItem>();
+  private _dirtyItems = new Set<MenuItem>();
+  private _nodes = new Vector<HTMLElement>();
+}
+
+
+// Define the signals for the `Menu` class.
+defineSignal(Menu.prototype, 'closed');
+defineSignal(Menu.prototype, 'menuRequested');
+
+
+/**
+ * A factory object which creates item nodes for a menu.
+ *
+ * #### Notes
+ * User code can implement a menu item factory when the default item
+ * nodes created by the menu are insufficient.
+ */
+export
+interface IMenuItemFactory {
+  /**
+   * Create a node for a menu item.
+   *
+   * @returns A new node for a menu item.
+   *
+   * #### Notes
+   * The data in the node should be uninitialized. The `updateItemNode`
+   * method will be called to initialize the data for the item node.
+   */
+  createItemNode(): HTMLElement;
+
+  /**
+   * Update an item node to reflect the state of a menu item.
+   *
+   * @param node - An item node created by a call to `createItemNode`.
+   *
+   * @param item - The menu item holding the data for the node.
+   *
+   * #### Notes
+   * This method should completely reset the state of the item node to
+   * reflect the data in the menu item.
+   */
+  updateItemNode(node: HTMLElement, item: MenuItem): void;
+}
+
+
+/**
+ * A concrete implementation of [[IMenuItemFactory]].
+ *
+ * #### Notes
+ * This is the default menu item factory type for `Menu`.
+ */
+export
+class MenuItemFactory implements IMenuItemFactory {
+  /**
+   * Create a node for a menu item.
+   *
+   * @returns A new node for a menu item.
+   */
+  createItemNode(): HTMLElement {
+    let node = document.createElement('li');
+    let icon = document.createElement('span');
+    let label = document.createElement('span');
+    let shortcut = document.createElement('span');
+    let submenu = document.createElement('span');
+    node.className = ITEM_CLASS;
+    icon.className = ICON_CLASS;
+    label.className = LABEL_CLASS;
+    shortcut.className = SHORTCUT_CLASS;
+    submenu.className = SUBMENU_ICON_CLASS;
+    node.appendChild(icon);
+    node.appendChild(label);
+    node.appendChild(shortcut);
+    node.appendChild(submenu);
+    return node;
+  }
+
+  /**
+   * Update an item node to reflect the state of a menu item.
+   *
+   * @param node - An item node created by a call to `createItemNode`.
+   *
+   * @param item - The menu item holding the data for the node.
+   *
+   * #### Notes
+   * The ARIA role of the node is set from the type of the item. The
+   * active state is managed by the menu.
+   */
+  updateItemNode(node: HTMLElement, item: MenuItem): void {
+    let typeClass = Private.typeClass(item.type);
+    let itemInfix = item.className ? ` ${item.className}` : '';
+    let disabledSuffix = item.disabled ? ` ${DISABLED_CLASS}` : '';
+    let checkedSuffix = item.checked ? ` ${CHECKED_CLASS}` : '';
+    let iconSuffix = item.icon ? ` ${item.icon}` : '';
+    let icon = node.firstChild as HTMLElement;
+    let label = icon.nextSibling as HTMLElement;
+    let shortcut = label.nextSibling as HTMLElement;
+    node.className = `${ITEM_CLASS} ${typeClass}${itemInfix}${disabledSuffix}${checkedSuffix}`;
+    icon.className = `${ICON_CLASS}${iconSuffix}`;
+    label.textContent = item.label;
+    shortcut.textContent = item.shortcut;
+    node.setAttribute('role', Private.typeRole(item.type));
+    if (item.type === MenuItemType.Check) {
+      node.setAttribute('aria-checked', `${item.checked}`);
+    } else {
+      node.removeAttribute('aria-checked');
+    }
+    if (item.type === MenuItemType.Submenu) {
+      node.setAttribute('aria-haspopup', 'true');
+    } else {
+      node.removeAttribute('aria-haspopup');
+    }
+    if (item.disabled) {
+      node.setAttribute('aria-disabled', 'true');
+    } else {
+      node.removeAttribute('aria-disabled');
+    }
+  }
+}
+
+
+/**
+ * The namespace for the `MenuItemFactory` class statics.
+ */
+export
+namespace MenuItemFactory {
+  /**
+   * A singleton instance of the `MenuItemFactory` class.
+   *
+   * #### Notes
+   * This is default menu item factory instance used by `Menu`.
+   */
+  export
+  const instance = new MenuItemFactory();
+}
+
+
+/**
+ * The namespace for the private module data.
+ */
+namespace Private {
+  /**
+   * Test whether a menu item can be activated.
+   */
+  export
+  function isSelectable(item: MenuItem): boolean {
+    return item.type !== MenuItemType.Separator && !item.disabled;
+  }
+
+  /**
+   * Get the type class name for a menu item type.
+   */
+  export
+  function typeClass(type: MenuItemType): string {
+    switch (type) {
+    case MenuItemType.Check:
+      return CHECK_TYPE_CLASS;
+    case MenuItemType.Separator:
+      return SEPARATOR_TYPE_CLASS;
+    case MenuItemType.Submenu:
+      return SUBMENU_TYPE_CLASS;
+    }
+    return NORMAL_TYPE_CLASS;
+  }
+
+  /**
+   * Get the ARIA role for a menu item type.
+   */
+  export
+  function typeRole(type: MenuItemType): string {
+    switch (type) {
+    case MenuItemType.Check:
+      return 'menuitemcheckbox';
+    case MenuItemType.Separator:
+      return 'separator';
+    }
+    return 'menuitem';
+  }
+
+  /**
+   * Get the root menu of a menu hierarchy.
+   */
+  export
+  function rootMenu(menu: Menu): Menu {
+    while (menu.parentMenu) menu = menu.parentMenu;
+    return menu;
+  }
+
+  /**
+   * Get the deepest open menu of a menu hierarchy.
+   */
+  export
+  function leafMenu(menu: Menu): Menu {
+    while (menu.childMenu) menu = menu.childMenu;
+    return menu;
+  }
+
+  /**
+   * Test whether a client position lies within a menu hierarchy.
+   */
+  export
+  function hitTestMenus(menu: Menu, x: number, y: number): boolean {
+    for (; menu; menu = menu.childMenu) {
+      if (hitTest(menu.node, x, y)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Open a root menu at the given client position.
+   *
+   * The menu is moved as needed to fit within the viewport.
+   */
+  export
+  function openMenu(menu: Menu, x: number, y: number): void {
+    // Attach the menu hidden so that it can be measured.
+    let style = menu.node.style;
+    style.top = '';
+    style.left = '';
+    style.visibility = 'hidden';
+    Widget.attach(menu, document.body);
+
+    // Adjust the position to fit within the viewport.
+    let { width, height } = menu.node.getBoundingClientRect();
+    let maxX = document.documentElement.clientWidth;
+    let maxY = document.documentElement.clientHeight;
+    if (x + width > maxX) x = Math.max(0, maxX - width);
+    if (y + height > maxY) y = Math.max(0, maxY - height);
+
+    // Position and show the menu.
+    style.top = `${Math.max(0, y) + window.pageYOffset}px`;
+    style.left = `${Math.max(0, x) + window.pageXOffset}px`;
+    style.visibility = '';
+  }
+
+  /**
+   * Open a submenu next to the given item node of its parent menu.
+   *
+   * The submenu is opened to the left of the item if it does not fit
+   * to the right within the viewport.
+   */
+  export
+  function openSubmenu(submenu: Menu, itemNode: HTMLElement): void {
+    // Attach the menu hidden so that it can be measured.
+    let style = submenu.node.style;
+    style.top = '';
+    style.left = '';
+    style.visibility = 'hidden';
+    Widget.attach(submenu, document.body);
+
+    // Compute the position which aligns the first item with the item.
+    let itemRect = itemNode.getBoundingClientRect();
+    let { width, height } = submenu.node.getBoundingClientRect();
+    let box = boxSizing(submenu.node);
+    let maxX = document.documentElement.clientWidth;
+    let maxY = document.documentElement.clientHeight;
+    let x = itemRect.right - SUBMENU_OVERLAP;
+    let y = itemRect.top - box.borderTop - box.paddingTop;
+
+    // Adjust the position to fit within the viewport.
+    if (x + width > maxX) x = itemRect.left + SUBMENU_OVERLAP - width;
+    if (y + height > maxY) y = maxY - height;
+
+    // Position and show the menu.
+    style.top = `${Math.max(0, y) + window.pageYOffset}px`;
+    style.left = `${Math.max(0, x) + window.pageXOffset}px`;
+    style.visibility = '';
+  }
+}
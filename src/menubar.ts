@@ -0,0 +1,706 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  Message
+} from 'phosphor-core/lib/messaging';
+
+import {
+  findIndex, indexOf
+} from 'phosphor-core/lib/searching';
+
+import {
+  ISequence
+} from 'phosphor-core/lib/sequence';
+
+import {
+  Vector
+} from 'phosphor-core/lib/vector';
+
+import {
+  hitTest
+} from './domutil';
+
+import {
+  Menu
+} from './menu';
+
+import {
+  Title
+} from './title';
+
+import {
+  Widget, WidgetFlag
+} from './widget';
+
+
+/**
+ * The class name added to MenuBar instances.
+ */
+const MENU_BAR_CLASS = 'p-MenuBar';
+
+/**
+ * The class name added to a menu bar content node.
+ */
+const CONTENT_CLASS = 'p-MenuBar-content';
+
+/**
+ * The class name added to a menu bar item node.
+ */
+const ITEM_CLASS = 'p-MenuBar-item';
+
+/**
+ * The class name added to a menu bar item icon node.
+ */
+const ICON_CLASS = 'p-MenuBar-itemIcon';
+
+/**
+ * The class name added to a menu bar item label node.
+ */
+const LABEL_CLASS = 'p-MenuBar-itemLabel';
+
+/**
+ * The class name added to the active item and to a menu bar with an
+ * open menu.
+ */
+const ACTIVE_CLASS = 'p-mod-active';
+
+
+/**
+ * A widget which displays menus as a row of items.
+ *
+ * #### Notes
+ * Each item is populated from the `title` of its menu. Pressing an
+ * item opens its menu below the item, and hovering another item while
+ * a menu is open switches to the menu of that item.
+ */
+export
+class MenuBar extends Widget {
+  /**
+   * Create the DOM node for a menu bar.
+   */
+  static createNode(): HTMLElement {
+    let node = document.createElement('div');
+    let content = document.createElement('ul');
+    content.className = CONTENT_CLASS;
+    content.setAttribute('role', 'menubar');
+    node.appendChild(content);
+    return node;
+  }
+
+  /**
+   * Construct a new menu bar.
+   *
+   * @param factory - The factory for creating new menu bar item nodes.
+   */
+  constructor(factory: IMenuBarItemFactory = MenuBarItemFactory.instance) {
+    super();
+    this._factory = factory;
+    this.addClass(MENU_BAR_CLASS);
+    this.setFlag(WidgetFlag.DisallowLayout);
+  }
+
+  /**
+   * Dispose of the resources held by the menu bar.
+   */
+  dispose(): void {
+    this._closeChildMenu();
+    this._nodes.clear();
+    this._menus.clear();
+    this._dirtyTitles.clear();
+    this._factory = null;
+    super.dispose();
+  }
+
+  /**
+   * Get the menu bar content node.
+   *
+   * #### Notes
+   * This is the node which holds the menu bar item nodes.
+   *
+   * This is a read-only property.
+   */
+  get contentNode(): HTMLElement {
+    return this.node.getElementsByClassName(CONTENT_CLASS)[0] as HTMLElement;
+  }
+
+  /**
+   * A read-only sequence of the menus in the menu bar.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get menus(): ISequence<Menu> {
+    return this._menus;
+  }
+
+  /**
+   * Get the open child menu of the menu bar.
+   *
+   * #### Notes
+   * This will be `null` if the menu bar does not have an open menu.
+   *
+   * This is a read-only property.
+   */
+  get childMenu(): Menu {
+    return this._childMenu;
+  }
+
+  /**
+   * Get the index of the active menu bar item.
+   *
+   * #### Notes
+   * This will be `-1` if no item is active.
+   */
+  get activeIndex(): number {
+    return this._activeIndex;
+  }
+
+  /**
+   * Set the index of the active menu bar item.
+   *
+   * #### Notes
+   * If the index is out of range, it will be set to `-1`.
+   */
+  set activeIndex(value: number) {
+    let i = Math.floor(value);
+    if (i < 0 || i >= this._menus.length) {
+      i = -1;
+    }
+    if (this._activeIndex === i) {
+      return;
+    }
+    this._activeIndex = i;
+    this.update();
+  }
+
+  /**
+   * Get the menu of the active menu bar item.
+   *
+   * #### Notes
+   * This will be `null` if no item is active.
+   *
+   * This is a read-only property.
+   */
+  get activeMenu(): Menu {
+    let i = this._activeIndex;
+    return i !== -1 ? this._menus.at(i) : null;
+  }
+
+  /**
+   * Add a menu to the end of the menu bar.
+   *
+   * @param menu - The menu to add to the menu bar.
+   *
+   * #### Notes
+   * If the menu is already added to the menu bar, it will be moved.
+   *
+   * The menu's `title` is used to populate the menu bar item.
+   */
+  addMenu(menu: Menu): void {
+    this.insertMenu(this._menus.length, menu);
+  }
+
+  /**
+   * Insert a menu into the menu bar at the specified index.
+   *
+   * @param index - The index at which to insert the menu.
+   *
+   * @param menu - The menu to insert into the menu bar.
+   *
+   * #### Notes
+   * The index will be clamped to the bounds of the menus.
+   *
+   * If the menu is already added to the menu bar, it will be moved.
+   *
+   * The menu's `title` is used to populate the menu bar item.
+   */
+  insertMenu(index: number, menu: Menu): void {
+    // Close the child menu before making any changes.
+    this._closeChildMenu();
+
+    // Remove the menu if it is already in the menu bar.
+    let i = indexOf(this._menus, menu);
+    if (i !== -1) this.removeMenu(i);
+
+    // Clamp the insert index to the vector bounds.
+    let j = Math.max(0, Math.min(Math.floor(index), this._menus.length));
+
+    // Create the new item node for the menu.
+    let node = this._factory.createItemNode();
+    this._factory.updateItemNode(node, menu.title);
+
+    // Insert the node and menu into the vectors.
+    this._nodes.insert(j, node);
+    this._menus.insert(j, menu);
+
+    // Look up the next sibling node.
+    let ref = j + 1 < this._nodes.length ? this._nodes.at(j + 1) : null;
+
+    // Insert the node into the content node.
+    this.contentNode.insertBefore(node, ref);
+
+    // Connect to the menu and title signals.
+    menu.closed.connect(this._onMenuClosed, this);
+    menu.menuRequested.connect(this._onMenuRequested, this);
+    menu.title.changed.connect(this._onTitleChanged, this);
+
+    // Adjust the active index for the insert.
+    if (this._activeIndex >= j) this._activeIndex++;
+
+    // Schedule an update of the items.
+    this.update();
+  }
+
+  /**
+   * Remove the menu at the specified index.
+   *
+   * @param index - The index of the menu to remove.
+   *
+   * #### Notes
+   * If the index is out of range, this is a no-op.
+   */
+  removeMenu(index: number): void {
+    // Bail if the index is out of range.
+    let i = Math.floor(index);
+    if (i < 0 || i >= this._menus.length) {
+      return;
+    }
+
+    // Close the child menu before making any changes.
+    this._closeChildMenu();
+
+    // Look up the node and menu.
+    let node = this._nodes.at(i);
+    let menu = this._menus.at(i);
+
+    // Remove the node and menu from the vectors.
+    this._nodes.remove(i);
+    this._menus.remove(i);
+
+    // Remove the node from the content node.
+    this.contentNode.removeChild(node);
+
+    // Disconnect from the menu and title signals.
+    menu.closed.disconnect(this._onMenuClosed, this);
+    menu.menuRequested.disconnect(this._onMenuRequested, this);
+    menu.title.changed.disconnect(this._onTitleChanged, this);
+    this._dirtyTitles.delete(menu.title);
+
+    // Adjust the active index for the removal.
+    if (this._activeIndex === i) {
+      this._activeIndex = -1;
+    } else if (this._activeIndex > i) {
+      this._activeIndex--;
+    }
+
+    // Schedule an update of the items.
+    this.update();
+  }
+
+  /**
+   * Remove all menus from the menu bar.
+   */
+  clearMenus(): void {
+    while (this._menus.length > 0) {
+      this.removeMenu(this._menus.length - 1);
+    }
+  }
+
+  /**
+   * Open the menu of the active item and activate its first item.
+   *
+   * #### Notes
+   * If there is no active item, this is a no-op.
+   */
+  openActiveMenu(): void {
+    this._openChildMenu();
+    if (this._childMenu) this._childMenu.activateNextItem();
+  }
+
+  /**
+   * Handle the DOM events for the menu bar.
+   *
+   * @param event - The DOM event sent to the menu bar.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the menu bar's DOM node.
+   *
+   * This should not be called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    switch (event.type) {
+    case 'keydown':
+      this._evtKeyDown(event as KeyboardEvent);
+      break;
+    case 'pointerdown':
+      this._evtPointerDown(event as PointerEvent);
+      break;
+    case 'pointermove':
+      this._evtPointerMove(event as PointerEvent);
+      break;
+    case 'pointerleave':
+      this._evtPointerLeave(event as PointerEvent);
+      break;
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'after-attach'` message.
+   */
+  protected onAfterAttach(msg: Message): void {
+    this.node.addEventListener('keydown', this);
+    this.node.addEventListener('pointerdown', this);
+    this.node.addEventListener('pointermove', this);
+    this.node.addEventListener('pointerleave', this);
+  }
+
+  /**
+   * A message handler invoked on a `'before-detach'` message.
+   */
+  protected onBeforeDetach(msg: Message): void {
+    this.node.removeEventListener('keydown', this);
+    this.node.removeEventListener('pointerdown', this);
+    this.node.removeEventListener('pointermove', this);
+    this.node.removeEventListener('pointerleave', this);
+    this._closeChildMenu();
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    let nodes = this._nodes;
+    let menus = this._menus;
+    let factory = this._factory;
+    let dirtyTitles = this._dirtyTitles;
+    let focusIndex = Math.max(0, this._activeIndex);
+    for (let i = 0, n = nodes.length; i < n; ++i) {
+      let node = nodes.at(i);
+      let title = menus.at(i).title;
+      if (dirtyTitles.has(title)) {
+        factory.updateItemNode(node, title);
+      }
+      if (i === this._activeIndex) {
+        node.classList.add(ACTIVE_CLASS);
+      } else {
+        node.classList.remove(ACTIVE_CLASS);
+      }
+      node.tabIndex = i === focusIndex ? 0 : -1;
+    }
+    dirtyTitles.clear();
+  }
+
+  /**
+   * Handle the `'keydown'` event for the menu bar.
+   *
+   * #### Notes
+   * While a menu is open, the key presses are handled by the menu.
+   */
+  private _evtKeyDown(event: KeyboardEvent): void {
+    // Do nothing if there are no menus.
+    let n = this._menus.length;
+    if (n === 0) {
+      return;
+    }
+
+    // Compute the new active index for the key.
+    let i = this._activeIndex;
+    switch (event.keyCode) {
+    case 13:  // Enter
+    case 32:  // Space
+    case 40:  // Down
+      event.preventDefault();
+      event.stopPropagation();
+      this.activeIndex = Math.max(0, i);
+      this.openActiveMenu();
+      return;
+    case 27:  // Escape
+      event.preventDefault();
+      event.stopPropagation();
+      this.activeIndex = -1;
+      this.node.blur();
+      return;
+    case 35:  // End
+      i = n - 1;
+      break;
+    case 36:  // Home
+      i = 0;
+      break;
+    case 37:  // Left
+      i = i <= 0 ? n - 1 : i - 1;
+      break;
+    case 39:  // Right
+      i = i === -1 || i === n - 1 ? 0 : i + 1;
+      break;
+    default:
+      return;
+    }
+
+    // Stop the event when navigating the items.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Update the active index and move the focus to the new item.
+    this.activeIndex = i;
+    let node = this._nodes.at(i);
+    node.tabIndex = 0;
+    node.focus();
+  }
+
+  /**
+   * Handle the `'pointerdown'` event for the menu bar.
+   *
+   * #### Notes
+   * While a menu is open, this listener is also installed on the
+   * document, ahead of the menu's own document listener, so that a
+   * press on an item is not treated as a press outside the menu.
+   */
+  private _evtPointerDown(event: PointerEvent): void {
+    // Do nothing if it's not a left button press.
+    if (event.button !== 0) {
+      return;
+    }
+
+    // Do nothing if the press is not on an item.
+    let x = event.clientX;
+    let y = event.clientY;
+    let i = findIndex(this._nodes, node => hitTest(node, x, y));
+    if (i === -1) {
+      return;
+    }
+
+    // Pressing an item stops the event, including for the open menu.
+    event.preventDefault();
+    event.stopPropagation();
+    if (this._childMenu) event.stopImmediatePropagation();
+
+    // Close the open menu if its item is pressed again.
+    if (this._childMenu && i === this._activeIndex) {
+      this._closeChildMenu();
+      this.activeIndex = i;
+      return;
+    }
+
+    // Open the menu for the pressed item.
+    this.activeIndex = i;
+    this._openChildMenu();
+  }
+
+  /**
+   * Handle the `'pointermove'` event for the menu bar.
+   */
+  private _evtPointerMove(event: PointerEvent): void {
+    // Bail if the active item has not changed.
+    let x = event.clientX;
+    let y = event.clientY;
+    let i = findIndex(this._nodes, node => hitTest(node, x, y));
+    if (i === this._activeIndex) {
+      return;
+    }
+
+    // Keep the open menu when the pointer is not over an item.
+    if (this._childMenu && i === -1) {
+      return;
+    }
+
+    // Update the active item and switch the open menu, if any.
+    this.activeIndex = i;
+    if (this._childMenu) this._openChildMenu();
+  }
+
+  /**
+   * Handle the `'pointerleave'` event for the menu bar.
+   */
+  private _evtPointerLeave(event: PointerEvent): void {
+    if (!this._childMenu) this.activeIndex = -1;
+  }
+
+  /**
+   * Open the menu of the active item as the child menu.
+   */
+  private _openChildMenu(): void {
+    // Close the child menu if there is no active menu.
+    let menu = this.activeMenu;
+    if (!menu) {
+      this._closeChildMenu();
+      return;
+    }
+
+    // Bail if the menu is already open.
+    if (menu === this._childMenu) {
+      return;
+    }
+
+    // Close any other use of the menu before the swap, so its `closed`
+    // signal is not mistaken for the child menu closing.
+    menu.close();
+
+    // Swap the child menu. The old menu is closed after the swap so
+    // its `closed` signal does not reset the menu bar state.
+    let old = this._childMenu;
+    this._childMenu = menu;
+    if (old) {
+      old.close();
+    } else {
+      document.addEventListener('pointerdown', this, true);
+    }
+
+    // Open the menu below the item.
+    this.addClass(ACTIVE_CLASS);
+    let rect = this._nodes.at(this._activeIndex).getBoundingClientRect();
+    menu.open(rect.left, rect.bottom);
+  }
+
+  /**
+   * Close the child menu, if any.
+   */
+  private _closeChildMenu(): void {
+    if (this._childMenu) this._childMenu.close();
+  }
+
+  /**
+   * Handle the `closed` signal from a menu.
+   */
+  private _onMenuClosed(sender: Menu): void {
+    if (sender !== this._childMenu) {
+      return;
+    }
+    document.removeEventListener('pointerdown', this, true);
+    this._childMenu = null;
+    this.removeClass(ACTIVE_CLASS);
+    this.activeIndex = -1;
+  }
+
+  /**
+   * Handle the `menuRequested` signal from a menu.
+   */
+  private _onMenuRequested(sender: Menu, args: string): void {
+    if (sender !== this._childMenu) {
+      return;
+    }
+    let n = this._menus.length;
+    let i = this._activeIndex;
+    this.activeIndex = args === 'previous' ? (i + n - 1) % n : (i + 1) % n;
+    this.openActiveMenu();
+  }
+
+  /**
+   * Handle the `changed` signal of a menu title.
+   */
+  private _onTitleChanged(sender: Title): void {
+    this._dirtyTitles.add(sender);
+    this.update();
+  }
+
+  private _activeIndex = -1;
+  private _childMenu: Menu = null;
+  private _factory: IMenuBarItemFactory;
+  private _menus = new Vector<Menu>();
+  private _dirtyTitles = new Set<Title>();
+  private _nodes = new Vector<HTMLElement>();
+}
+
+
+/**
+ * A factory object which creates item nodes for a menu bar.
+ *
+ * #### Notes
+ * User code can implement a menu bar item factory when the default
+ * item nodes created by the menu bar are insufficient.
+ */
+export
+interface IMenuBarItemFactory {
+  /**
+   * Create a node for a menu bar item.
+   *
+   * @returns A new node for a menu bar item.
+   *
+   * #### Notes
+   * The data in the node should be uninitialized. The `updateItemNode`
+   * method will be called to initialize the data for the item node.
+   */
+  createItemNode(): HTMLElement;
+
+  /**
+   * Update an item node to reflect the state of a menu title.
+   *
+   * @param node - An item node created by a call to `createItemNode`.
+   *
+   * @param title - The title object holding the data for the item.
+   *
+   * #### Notes
+   * This method should completely reset the state of the item node to
+   * reflect the data in the title.
+   */
+  updateItemNode(node: HTMLElement, title: Title): void;
+}
+
+
+/**
+ * A concrete implementation of [[IMenuBarItemFactory]].
+ *
+ * #### Notes
+ * This is the default menu bar item factory type for `MenuBar`.
+ */
+export
+class MenuBarItemFactory implements IMenuBarItemFactory {
+  /**
+   * Create a node for a menu bar item.
+   *
+   * @returns A new node for a menu bar item.
+   */
+  createItemNode(): HTMLElement {
+    let node = document.createElement('li');
+    let icon = document.createElement('span');
+    let label = document.createElement('span');
+    node.className = ITEM_CLASS;
+    node.tabIndex = -1;
+    node.setAttribute('role', 'menuitem');
+    node.setAttribute('aria-haspopup', 'true');
+    icon.className = ICON_CLASS;
+    label.className = LABEL_CLASS;
+    node.appendChild(icon);
+    node.appendChild(label);
+    return node;
+  }
+
+  /**
+   * Update an item node to reflect the state of a menu title.
+   *
+   * @param node - An item node created by a call to `createItemNode`.
+   *
+   * @param title - The title object holding the data for the item.
+   */
+  updateItemNode(node: HTMLElement, title: Title): void {
+    let itemInfix = title.className ? ` ${title.className}` : '';
+    let iconSuffix = title.icon ? ` ${title.icon}` : '';
+    let icon = node.firstChild as HTMLElement;
+    let label = icon.nextSibling as HTMLElement;
+    node.className = `${ITEM_CLASS}${itemInfix}`;
+    icon.className = `${ICON_CLASS}${iconSuffix}`;
+    label.textContent = title.text;
+    label.title = title.tooltip;
+  }
+}
+
+
+/**
+ * The namespace for the `MenuBarItemFactory` class statics.
+ */
+export
+namespace MenuBarItemFactory {
+  /**
+   * A singleton instance of the `MenuBarItemFactory` class.
+   *
+   * #### Notes
+   * This is default menu bar item factory instance used by `MenuBar`.
+   */
+  export
+  const instance = new MenuBarItemFactory();
+}
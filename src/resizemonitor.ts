@@ -0,0 +1,227 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  IDisposable
+} from 'phosphor-core/lib/disposable';
+
+import {
+  sendMessage
+} from 'phosphor-core/lib/messaging';
+
+import {
+  ResizeMessage, Widget
+} from './widget';
+
+
+/**
+ * An object which sends resize messages to a root widget.
+ *
+ * #### Notes
+ * The monitor watches for window resizes and for size changes of the
+ * widget node, using a `ResizeObserver` where available and polling
+ * otherwise. All changes within an animation frame are conflated, and
+ * a `'resize'` message with the measured size of the node is sent to
+ * the widget only when its size has actually changed.
+ *
+ * Only attached root widgets are sent resize messages. The monitor is
+ * disposed automatically when its widget is disposed.
+ */
+export
+class ResizeMonitor implements IDisposable {
+  /**
+   * Construct a new resize monitor.
+   *
+   * @param widget - The root widget to monitor.
+   *
+   * @param options - The options for initializing the monitor.
+   */
+  constructor(widget: Widget, options: ResizeMonitor.IOptions = {}) {
+    this._widget = widget;
+    widget.disposed.connect(this.dispose, this);
+    window.addEventListener('resize', this);
+    let ctor = Private.resizeObserverCtor();
+    if (ctor) {
+      this._observer = new ctor(() => { this.schedule(); });
+      this._observer.observe(widget.node);
+    } else {
+      let interval = options.pollInterval;
+      if (interval === void 0) interval = Private.DEFAULT_POLL_INTERVAL;
+      if (interval > 0) {
+        this._timerID = setInterval(() => { this.schedule(); }, interval);
+      }
+    }
+    this.schedule();
+  }
+
+  /**
+   * Dispose of the resources held by the monitor.
+   */
+  dispose(): void {
+    if (this._widget === null) {
+      return;
+    }
+    this._widget.disposed.disconnect(this.dispose, this);
+    this._widget = null;
+    window.removeEventListener('resize', this);
+    if (this._observer) {
+      this._observer.disconnect();
+      this._observer = null;
+    }
+    if (this._timerID !== -1) {
+      clearInterval(this._timerID);
+      this._timerID = -1;
+    }
+    if (this._frameID !== -1) {
+      cancelAnimationFrame(this._frameID);
+      this._frameID = -1;
+    }
+  }
+
+  /**
+   * Test whether the monitor is disposed.
+   *
+   * #### Notes
+   * This is a read-only property.
+   */
+  get isDisposed(): boolean {
+    return this._widget === null;
+  }
+
+  /**
+   * Get the widget monitored by the monitor.
+   *
+   * #### Notes
+   * This will be `null` if the monitor is disposed.
+   *
+   * This is a read-only property.
+   */
+  get widget(): Widget {
+    return this._widget;
+  }
+
+  /**
+   * Schedule a measurement of the widget on the next animation frame.
+   *
+   * #### Notes
+   * Multiple calls within the same frame are conflated into a single
+   * measurement, which yields at most one `'resize'` message.
+   */
+  schedule(): void {
+    if (this._widget === null || this._frameID !== -1) {
+      return;
+    }
+    this._frameID = requestAnimationFrame(() => {
+      this._frameID = -1;
+      this._measure();
+    });
+  }
+
+  /**
+   * Handle the DOM events for the resize monitor.
+   *
+   * @param event - The DOM event sent to the monitor.
+   *
+   * #### Notes
+   * This method implements the DOM `EventListener` interface and is
+   * called in response to events on the window. It should not be
+   * called directly by user code.
+   */
+  handleEvent(event: Event): void {
+    if (event.type === 'resize') {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Measure the widget and send a resize message if it has changed.
+   */
+  private _measure(): void {
+    let widget = this._widget;
+    if (!widget || widget.parent || !widget.isAttached) {
+      return;
+    }
+    let width = widget.node.offsetWidth;
+    let height = widget.node.offsetHeight;
+    if (width === this._width && height === this._height) {
+      return;
+    }
+    this._width = width;
+    this._height = height;
+    sendMessage(widget, new ResizeMessage(width, height));
+  }
+
+  private _width = -1;
+  private _height = -1;
+  private _timerID = -1;
+  private _frameID = -1;
+  private _widget: Widget;
+  private _observer: Private.IResizeObserver = null;
+}
+
+
+/**
+ * The namespace for the `ResizeMonitor` class statics.
+ */
+export
+namespace ResizeMonitor {
+  /**
+   * An options object for initializing a resize monitor.
+   */
+  export
+  interface IOptions {
+    /**
+     * The polling interval in milliseconds when `ResizeObserver` is not
+     * available, or `0` to disable polling.
+     *
+     * The default is `250`.
+     */
+    pollInterval?: number;
+  }
+}
+
+
+/**
+ * The namespace for the private module data.
+ */
+namespace Private {
+  /**
+   * The default polling interval in milliseconds.
+   */
+  export
+  const DEFAULT_POLL_INTERVAL = 250;
+
+  /**
+   * The subset of the `ResizeObserver` API used by the monitor.
+   */
+  export
+  interface IResizeObserver {
+    observe(target: HTMLElement): void;
+    disconnect(): void;
+  }
+
+  /**
+   * A constructor for a `ResizeObserver`.
+   */
+  export
+  interface IResizeObserverCtor {
+    new (callback: () => void): IResizeObserver;
+  }
+
+  /**
+   * The global `ResizeObserver` constructor, where supported.
+   */
+  declare var ResizeObserver: IResizeObserverCtor;
+
+  /**
+   * Get the `ResizeObserver` constructor, or `null` if unavailable.
+   */
+  export
+  function resizeObserverCtor(): IResizeObserverCtor {
+    return typeof ResizeObserver !== 'undefined' ? ResizeObserver : null;
+  }
+}
@@ -33,6 +33,10 @@ import {
   ISequence
 } from 'phosphor-core/lib/sequence';
 
+import {
+  ISignal, defineSignal
+} from 'phosphor-core/lib/signaling';
+
 import {
   Vector
 } from 'phosphor-core/lib/vector';
@@ -77,11 +81,21 @@ const CHILD_CLASS = 'p-SplitPanel-child';
  */
 const HANDLE_CLASS = 'p-SplitPanel-handle';
 
+/**
+ * The class name added to the ghost handle of a deferred resize.
+ */
+const GHOST_HANDLE_CLASS = 'p-SplitPanel-ghostHandle';
+
 /**
  * The class name added to hidden split handles.
  */
 const HIDDEN_CLASS = 'p-mod-hidden';
 
+/**
+ * The class name added to collapsed split panel children.
+ */
+const COLLAPSED_CLASS = 'p-mod-collapsed';
+
 /**
  * The class name added to horizontal split panels.
  */
@@ -92,6 +106,11 @@ const HORIZONTAL_CLASS = 'p-mod-horizontal';
  */
 const VERTICAL_CLASS = 'p-mod-vertical';
 
+/**
+ * The size below which a dragged collapsible widget snaps closed.
+ */
+const COLLAPSE_THRESHOLD = 20;
+
 
 /**
  * The orientation of a split layout.
@@ -110,6 +129,51 @@ enum Orientation {
 }
 
 
+/**
+ * The handle resize mode of a split panel.
+ */
+export
+enum ResizeMode {
+  /**
+   * The widgets are resized on every pointer move.
+   */
+  Live,
+
+  /**
+   * The widgets are resized at most once per animation frame.
+   */
+  Throttled,
+
+  /**
+   * A ghost handle follows the pointer, and the widgets are resized
+   * only when the handle is released.
+   */
+  Deferred
+}
+
+
+/**
+ * The arguments object for the `collapsedChanged` signal.
+ */
+export
+interface ICollapsedChangedArgs {
+  /**
+   * The index of the widget in the layout.
+   */
+  index: number;
+
+  /**
+   * The widget which was collapsed or expanded.
+   */
+  widget: Widget;
+
+  /**
+   * Whether the widget is now collapsed.
+   */
+  collapsed: boolean;
+}
+
+
 /**
  * A panel which arranges its widgets into resizable sections.
  *
@@ -130,10 +194,14 @@ class SplitPanel extends Panel {
    *
    * #### Notes
    * This may be reimplemented to create custom split handles.
+   *
+   * The default handle is focusable and has the `separator` ARIA role.
    */
   static createHandle(): HTMLElement {
     let handle = document.createElement('div');
     handle.className = HANDLE_CLASS;
+    handle.tabIndex = 0;
+    handle.setAttribute('role', 'separator');
     return handle;
   }
 
@@ -143,6 +211,8 @@ class SplitPanel extends Panel {
   constructor() {
     super();
     this.addClass(SPLIT_PANEL_CLASS);
+    let layout = this.layout as SplitLayout;
+    layout.collapsedChanged.connect(this._onCollapsedChanged, this);
   }
 
   /**
@@ -153,6 +223,14 @@ class SplitPanel extends Panel {
     super.dispose();
   }
 
+  /**
+   * A signal emitted when a widget is collapsed or expanded.
+   *
+   * #### Notes
+   * This signal is emitted for both user and programmatic changes.
+   */
+  collapsedChanged: ISignal<SplitPanel, ICollapsedChangedArgs>;
+
   /**
    * Get the layout orientation for the split panel.
    */
@@ -181,6 +259,120 @@ class SplitPanel extends Panel {
     (this.layout as SplitLayout).spacing = value;
   }
 
+  /**
+   * Get the distance a handle moves for an arrow key press.
+   *
+   * #### Notes
+   * The default value is `10`.
+   */
+  get handleStep(): number {
+    return this._handleStep;
+  }
+
+  /**
+   * Set the distance a handle moves for an arrow key press.
+   */
+  set handleStep(value: number) {
+    this._handleStep = Math.max(0, value);
+  }
+
+  /**
+   * Get the distance a handle moves for a page key press.
+   *
+   * #### Notes
+   * The default value is `100`.
+   */
+  get handlePageStep(): number {
+    return this._handlePageStep;
+  }
+
+  /**
+   * Set the distance a handle moves for a page key press.
+   */
+  set handlePageStep(value: number) {
+    this._handlePageStep = Math.max(0, value);
+  }
+
+  /**
+   * Get the resize mode for dragging a handle with a pointer.
+   *
+   * #### Notes
+   * The `Throttled` and `Deferred` modes reduce the layout and resize
+   * work done during a drag, which is useful for expensive children.
+   *
+   * The default is `ResizeMode.Live`.
+   */
+  get resizeMode(): ResizeMode {
+    return this._resizeMode;
+  }
+
+  /**
+   * Set the resize mode for dragging a handle with a pointer.
+   *
+   * #### Notes
+   * Changing the resize mode will abort a drag in progress.
+   */
+  set resizeMode(value: ResizeMode) {
+    if (this._resizeMode === value) {
+      return;
+    }
+    this._releaseMouse();
+    this._resizeMode = value;
+  }
+
+  /**
+   * Get the handle snap ratios for the split panel.
+   *
+   * #### Notes
+   * The ratios are fractions of the layout space in the range `[0, 1]`.
+   *
+   * The default is an empty array.
+   */
+  get snapRatios(): number[] {
+    return (this.layout as SplitLayout).snapRatios;
+  }
+
+  /**
+   * Set the handle snap ratios for the split panel.
+   */
+  set snapRatios(value: number[]) {
+    (this.layout as SplitLayout).snapRatios = value;
+  }
+
+  /**
+   * Get the handle snap grid size for the split panel.
+   *
+   * #### Notes
+   * A value of `0` disables the grid. The default is `0`.
+   */
+  get snapGrid(): number {
+    return (this.layout as SplitLayout).snapGrid;
+  }
+
+  /**
+   * Set the handle snap grid size for the split panel.
+   */
+  set snapGrid(value: number) {
+    (this.layout as SplitLayout).snapGrid = value;
+  }
+
+  /**
+   * Get the distance within which a handle snaps to a snap point.
+   *
+   * #### Notes
+   * The default is `8`.
+   */
+  get snapDistance(): number {
+    return (this.layout as SplitLayout).snapDistance;
+  }
+
+  /**
+   * Set the distance within which a handle snaps to a snap point.
+   */
+  set snapDistance(value: number) {
+    (this.layout as SplitLayout).snapDistance = value;
+  }
+
   /**
    * A read-only sequence of the split handles in the panel.
    *
@@ -223,6 +415,73 @@ class SplitPanel extends Panel {
     (this.layout as SplitLayout).setSizes(sizes);
   }
 
+  /**
+   * Get the size constraints for the widget at the given index.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * @returns A new object holding the size constraints of the widget,
+   *   or `null` if the index is out of range.
+   */
+  sizeConstraints(index: number): ISizeConstraints {
+    return (this.layout as SplitLayout).sizeConstraints(index);
+  }
+
+  /**
+   * Set the size constraints for the widget at the given index.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * @param constraints - The size constraints for the widget.
+   *
+   * #### Notes
+   * The constraints apply in addition to the CSS size limits of the
+   * widget node. If the index is out of range, this is a no-op.
+   */
+  setSizeConstraints(index: number, constraints: ISizeConstraints): void {
+    (this.layout as SplitLayout).setSizeConstraints(index, constraints);
+  }
+
+  /**
+   * Test whether the widget at the given index is collapsed.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * @returns `true` if the widget is collapsed, `false` otherwise.
+   */
+  isCollapsed(index: number): boolean {
+    return (this.layout as SplitLayout).isCollapsed(index);
+  }
+
+  /**
+   * Collapse the widget at the given index.
+   *
+   * @param index - The index of the widget to collapse.
+   *
+   * #### Notes
+   * The widget is sized to its minimum size and the space it frees is
+   * given to the adjacent widget.
+   *
+   * If the index is out of range, this is a no-op.
+   */
+  collapse(index: number): void {
+    (this.layout as SplitLayout).collapse(index);
+  }
+
+  /**
+   * Expand the collapsed widget at the given index.
+   *
+   * @param index - The index of the widget to expand.
+   *
+   * #### Notes
+   * The widget is restored to its size from before it was collapsed.
+   *
+   * If the index is out of range, this is a no-op.
+   */
+  expand(index: number): void {
+    (this.layout as SplitLayout).expand(index);
+  }
+
   /**
    * Handle the DOM events for the split panel.
    *
@@ -235,18 +494,24 @@ class SplitPanel extends Panel {
    */
   handleEvent(event: Event): void {
     switch (event.type) {
-    case 'mousedown':
-      this._evtMouseDown(event as MouseEvent);
+    case 'pointerdown':
+      this._evtPointerDown(event as PointerEvent);
+      break;
+    case 'pointermove':
+      this._evtPointerMove(event as PointerEvent);
       break;
-    case 'mousemove':
-      this._evtMouseMove(event as MouseEvent);
+    case 'pointerup':
+      this._evtPointerUp(event as PointerEvent);
       break;
-    case 'mouseup':
-      this._evtMouseUp(event as MouseEvent);
+    case 'pointercancel':
+      this._evtPointerCancel(event as PointerEvent);
       break;
     case 'keydown':
       this._evtKeyDown(event as KeyboardEvent);
       break;
+    case 'dblclick':
+      this._evtDblClick(event as MouseEvent);
+      break;
     case 'keyup':
     case 'keypress':
     case 'contextmenu':
@@ -261,14 +526,18 @@ class SplitPanel extends Panel {
    * A message handler invoked on an `'after-attach'` message.
    */
   protected onAfterAttach(msg: Message): void {
-    this.node.addEventListener('mousedown', this);
+    this.node.addEventListener('keydown', this);
+    this.node.addEventListener('dblclick', this);
+    this.node.addEventListener('pointerdown', this);
   }
 
   /**
    * A message handler invoked on a `'before-detach'` message.
    */
   protected onBeforeDetach(msg: Message): void {
-    this.node.removeEventListener('mousedown', this);
+    this.node.removeEventListener('keydown', this);
+    this.node.removeEventListener('dblclick', this);
+    this.node.removeEventListener('pointerdown', this);
     this._releaseMouse();
   }
 
@@ -292,24 +561,119 @@ class SplitPanel extends Panel {
    * Handle the `'keydown'` event for the split panel.
    */
   private _evtKeyDown(event: KeyboardEvent): void {
+    // Handle the handle resize keys if a drag is not in progress.
+    if (!this._pressData) {
+      this._evtHandleKeyDown(event);
+      return;
+    }
+
     // Stop input events during drag.
     event.preventDefault();
     event.stopPropagation();
 
-    // Release the mouse if `Escape` is pressed.
+    // Release the pointer if `Escape` is pressed.
     if (event.keyCode === 27) this._releaseMouse();
   }
 
   /**
-   * Handle the `'mousedown'` event for the split panel.
+   * Handle the `'keydown'` event for a focused split handle.
+   */
+  private _evtHandleKeyDown(event: KeyboardEvent): void {
+    // Do nothing if the key press is not on a split handle.
+    let layout = this.layout as SplitLayout;
+    let target = event.target as HTMLElement;
+    let index = findIndex(layout.handles, handle => handle.contains(target));
+    if (index === -1) {
+      return;
+    }
+
+    // Look up the current position of the handle.
+    let pos: number;
+    let handle = layout.handles.at(index);
+    let horz = layout.orientation === Orientation.Horizontal;
+    if (horz) {
+      pos = handle.offsetLeft;
+    } else {
+      pos = handle.offsetTop;
+    }
+
+    // Toggle the collapse state of an adjacent widget on `Enter`.
+    if (event.keyCode === 13) {
+      event.preventDefault();
+      event.stopPropagation();
+      this._toggleCollapse(index);
+      return;
+    }
+
+    // Compute the desired position of the handle for the key.
+    switch (event.keyCode) {
+    case 33:  // Page Up
+      pos -= this._handlePageStep;
+      break;
+    case 34:  // Page Down
+      pos += this._handlePageStep;
+      break;
+    case 35:  // End
+      pos = horz ? this.node.offsetWidth : this.node.offsetHeight;
+      break;
+    case 36:  // Home
+      pos = 0;
+      break;
+    case 37:  // Left
+    case 38:  // Up
+      pos -= this._handleStep;
+      break;
+    case 39:  // Right
+    case 40:  // Down
+      pos += this._handleStep;
+      break;
+    default:
+      return;
+    }
+
+    // Stop the event when a split handle is moved.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Set the handle as close to the desired position as possible.
+    layout.setHandlePosition(index, pos);
+  }
+
+  /**
+   * Handle the `'dblclick'` event for the split panel.
    */
-  private _evtMouseDown(event: MouseEvent): void {
-    // Do nothing if the left mouse button is not pressed.
+  private _evtDblClick(event: MouseEvent): void {
+    // Do nothing if the primary button is not pressed.
     if (event.button !== 0) {
       return;
     }
 
-    // Find the handle which contains the mouse target, if any.
+    // Find the handle which contains the target, if any.
+    let layout = this.layout as SplitLayout;
+    let target = event.target as HTMLElement;
+    let index = findIndex(layout.handles, handle => handle.contains(target));
+    if (index === -1) {
+      return;
+    }
+
+    // Stop the event when a split handle is double clicked.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Toggle the collapse state of an adjacent widget.
+    this._toggleCollapse(index);
+  }
+
+  /**
+   * Handle the `'pointerdown'` event for the split panel.
+   */
+  private _evtPointerDown(event: PointerEvent): void {
+    // Do nothing if the primary button is not pressed.
+    if (event.button !== 0) {
+      return;
+    }
+
+    // Find the handle which contains the pointer target, if any.
     let layout = this.layout as SplitLayout;
     let target = event.target as HTMLElement;
     let index = findIndex(layout.handles, handle => handle.contains(target));
@@ -321,9 +685,14 @@ class SplitPanel extends Panel {
     event.preventDefault();
     event.stopPropagation();
 
+    // Capture the pointer so the drag continues outside the panel.
+    let pointerId = event.pointerId;
+    this.node.setPointerCapture(pointerId);
+
     // Add the extra document listeners.
-    document.addEventListener('mouseup', this, true);
-    document.addEventListener('mousemove', this, true);
+    document.addEventListener('pointerup', this, true);
+    document.addEventListener('pointermove', this, true);
+    document.addEventListener('pointercancel', this, true);
     document.addEventListener('keydown', this, true);
     document.addEventListener('keyup', this, true);
     document.addEventListener('keypress', this, true);
@@ -333,59 +702,127 @@ class SplitPanel extends Panel {
     let delta: number;
     let handle = layout.handles.at(index);
     let rect = handle.getBoundingClientRect();
-    if (layout.orientation === Orientation.Horizontal) {
+    let horz = layout.orientation === Orientation.Horizontal;
+    if (horz) {
       delta = event.clientX - rect.left;
     } else {
       delta = event.clientY - rect.top;
     }
 
+    // Create the ghost handle for a deferred resize.
+    let ghost: HTMLElement = null;
+    if (this._resizeMode === ResizeMode.Deferred) {
+      ghost = Private.createGhostHandle(handle);
+      this.node.appendChild(ghost);
+    }
+
     // Override the cursor and store the press data.
     let style = window.getComputedStyle(handle);
     let override = overrideCursor(style.cursor);
-    this._pressData = { index, delta, override };
+    let pos = horz ? handle.offsetLeft : handle.offsetTop;
+    let frameID = -1;
+    this._pressData = { index, delta, pointerId, override, pos, ghost, frameID };
   }
 
   /**
-   * Handle the `'mousemove'` event for the split panel.
+   * Handle the `'pointermove'` event for the split panel.
    */
-  private _evtMouseMove(event: MouseEvent): void {
+  private _evtPointerMove(event: PointerEvent): void {
+    // Do nothing if the event is not for the drag pointer.
+    if (event.pointerId !== this._pressData.pointerId) {
+      return;
+    }
+
     // Stop the event when dragging a split handle.
     event.preventDefault();
     event.stopPropagation();
 
     // Compute the desired offset position for the handle.
     let pos: number;
+    let data = this._pressData;
     let layout = this.layout as SplitLayout;
+    let horz = layout.orientation === Orientation.Horizontal;
     let rect = this.node.getBoundingClientRect();
-    if (layout.orientation === Orientation.Horizontal) {
-      pos = event.clientX - rect.left - this._pressData.delta;
+    if (horz) {
+      pos = event.clientX - rect.left - data.delta;
     } else {
-      pos = event.clientY - rect.top - this._pressData.delta;
+      pos = event.clientY - rect.top - data.delta;
     }
 
-    // Set the handle as close to the desired position as possible.
-    layout.setHandlePosition(this._pressData.index, pos);
+    // Snap the position to the nearest snap point.
+    pos = layout.snapPosition(pos);
+    data.pos = pos;
+
+    // Move the handle according to the resize mode.
+    switch (this._resizeMode) {
+    case ResizeMode.Live:
+      layout.setHandlePosition(data.index, pos);
+      break;
+    case ResizeMode.Throttled:
+      if (data.frameID === -1) {
+        data.frameID = requestAnimationFrame(() => {
+          data.frameID = -1;
+          layout.setHandlePosition(data.index, data.pos);
+        });
+      }
+      break;
+    case ResizeMode.Deferred:
+      pos = layout.clampHandlePosition(data.index, pos);
+      Private.moveGhostHandle(data.ghost, this.node, pos, horz);
+      break;
+    }
   }
 
   /**
-   * Handle the `'mouseup'` event for the split panel.
+   * Handle the `'pointerup'` event for the split panel.
    */
-  private _evtMouseUp(event: MouseEvent): void {
-    // Do nothing if the left mouse button is not released.
+  private _evtPointerUp(event: PointerEvent): void {
+    // Do nothing if the primary button is not released.
     if (event.button !== 0) {
       return;
     }
 
+    // Do nothing if the event is not for the drag pointer.
+    if (event.pointerId !== this._pressData.pointerId) {
+      return;
+    }
+
     // Stop the event when releasing a handle.
     event.preventDefault();
     event.stopPropagation();
 
-    // Finalize the mouse release.
+    // The pointer capture is released implicitly on pointer up.
+    let data = this._pressData;
+    data.pointerId = -1;
+
+    // Commit the pending handle position of a non-live resize.
+    if (data.ghost || data.frameID !== -1) {
+      let layout = this.layout as SplitLayout;
+      layout.setHandlePosition(data.index, data.pos);
+    }
+
+    // Finalize the pointer release.
+    this._releaseMouse();
+  }
+
+  /**
+   * Handle the `'pointercancel'` event for the split panel.
+   */
+  private _evtPointerCancel(event: PointerEvent): void {
+    // Do nothing if the event is not for the drag pointer.
+    if (event.pointerId !== this._pressData.pointerId) {
+      return;
+    }
+
+    // The pointer capture is released implicitly on pointer cancel.
+    this._pressData.pointerId = -1;
+
+    // Finalize the pointer release.
     this._releaseMouse();
   }
 
   /**
-   * Release the mouse grab for the split panel.
+   * Release the pointer grab for the split panel.
    */
   private _releaseMouse(): void {
     // Bail early if no drag is in progress.
@@ -393,19 +830,66 @@ class SplitPanel extends Panel {
       return;
     }
 
+    // Release the pointer capture if the pointer is still captured.
+    let data = this._pressData;
+    if (data.pointerId !== -1) {
+      this.node.releasePointerCapture(data.pointerId);
+    }
+
+    // Cancel the pending animation frame of a throttled resize.
+    if (data.frameID !== -1) {
+      cancelAnimationFrame(data.frameID);
+    }
+
+    // Remove the ghost handle of a deferred resize.
+    if (data.ghost) {
+      this.node.removeChild(data.ghost);
+    }
+
     // Clear the override cursor.
-    this._pressData.override.dispose();
+    data.override.dispose();
     this._pressData = null;
 
     // Remove the extra document listeners.
-    document.removeEventListener('mouseup', this, true);
-    document.removeEventListener('mousemove', this, true);
+    document.removeEventListener('pointerup', this, true);
+    document.removeEventListener('pointermove', this, true);
+    document.removeEventListener('pointercancel', this, true);
     document.removeEventListener('keydown', this, true);
     document.removeEventListener('keyup', this, true);
     document.removeEventListener('keypress', this, true);
     document.removeEventListener('contextmenu', this, true);
   }
 
+  /**
+   * Toggle the collapse state of a widget adjacent to a split handle.
+   *
+   * A collapsed neighbor is expanded, otherwise the first collapsible
+   * neighbor is collapsed.
+   */
+  private _toggleCollapse(index: number): void {
+    let layout = this.layout as SplitLayout;
+    let next = Private.nextVisibleIndex(layout.widgets, index);
+    if (layout.isCollapsed(index)) {
+      layout.expand(index);
+    } else if (next !== -1 && layout.isCollapsed(next)) {
+      layout.expand(next);
+    } else if (SplitLayout.getCollapsible(layout.widgets.at(index))) {
+      layout.collapse(index);
+    } else if (next !== -1 && SplitLayout.getCollapsible(layout.widgets.at(next))) {
+      layout.collapse(next);
+    }
+  }
+
+  /**
+   * Handle the `collapsedChanged` signal from the split layout.
+   */
+  private _onCollapsedChanged(sender: SplitLayout, args: ICollapsedChangedArgs): void {
+    this.collapsedChanged.emit(args);
+  }
+
+  private _handleStep = 10;
+  private _handlePageStep = 100;
+  private _resizeMode = ResizeMode.Live;
   private _pressData: Private.IPressData = null;
 }
 
@@ -450,9 +934,37 @@ namespace SplitPanel {
   function setStretch(widget: Widget, value: number): void {
     SplitLayout.setStretch(widget, value);
   }
+
+  /**
+   * Get whether the given widget is collapsible by the user.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns Whether the widget is collapsible by the user.
+   */
+  export
+  function getCollapsible(widget: Widget): boolean {
+    return SplitLayout.getCollapsible(widget);
+  }
+
+  /**
+   * Set whether the given widget is collapsible by the user.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - Whether the widget is collapsible by the user.
+   */
+  export
+  function setCollapsible(widget: Widget, value: boolean): void {
+    SplitLayout.setCollapsible(widget, value);
+  }
 }
 
 
+// Define the signals for the `SplitPanel` class.
+defineSignal(SplitPanel.prototype, 'collapsedChanged');
+
+
 /**
  * A factory object which creates handles for a split layout.
  */
@@ -467,6 +979,23 @@ interface IHandleFactory {
 }
 
 
+/**
+ * An object which holds the size constraints for a split layout widget.
+ */
+export
+interface ISizeConstraints {
+  /**
+   * The minimum size of the widget along the layout orientation.
+   */
+  minSize: number;
+
+  /**
+   * The maximum size of the widget along the layout orientation.
+   */
+  maxSize: number;
+}
+
+
 /**
  * A layout which arranges its widgets into resizable sections.
  */
@@ -482,6 +1011,14 @@ class SplitLayout extends PanelLayout {
     this._factory = factory;
   }
 
+  /**
+   * A signal emitted when a widget is collapsed or expanded.
+   *
+   * #### Notes
+   * This signal is emitted for both user and programmatic changes.
+   */
+  collapsedChanged: ISignal<SplitLayout, ICollapsedChangedArgs>;
+
   /**
    * Get the layout orientation for the split layout.
    */
@@ -497,6 +1034,7 @@ class SplitLayout extends PanelLayout {
       return;
     }
     this._orientation = value;
+    Private.updateHandleOrientation(this._handles, value);
     if (!this.parent) {
       return;
     }
@@ -505,25 +1043,83 @@ class SplitLayout extends PanelLayout {
   }
 
   /**
-   * Get the inter-element spacing for the split layout.
+   * Get the inter-element spacing for the split layout.
+   */
+  get spacing(): number {
+    return this._spacing;
+  }
+
+  /**
+   * Set the inter-element spacing for the split layout.
+   */
+  set spacing(value: number) {
+    value = Math.max(0, Math.floor(value));
+    if (this._spacing === value) {
+      return;
+    }
+    this._spacing = value;
+    if (!this.parent) {
+      return;
+    }
+    this.parent.fit();
+  }
+
+  /**
+   * Get the handle snap ratios for the split layout.
+   *
+   * #### Notes
+   * The ratios are fractions of the layout space in the range `[0, 1]`.
+   * A handle dragged within the snap distance of a ratio will snap to
+   * it. See [[snapPosition]].
+   *
+   * The default is an empty array.
+   */
+  get snapRatios(): number[] {
+    return this._snapRatios.slice();
+  }
+
+  /**
+   * Set the handle snap ratios for the split layout.
+   */
+  set snapRatios(value: number[]) {
+    this._snapRatios = value.map(ratio => Math.max(0, Math.min(ratio, 1)));
+  }
+
+  /**
+   * Get the handle snap grid size for the split layout.
+   *
+   * #### Notes
+   * A handle dragged within the snap distance of a multiple of the grid
+   * size will snap to it. A value of `0` disables the grid.
+   *
+   * The default is `0`.
+   */
+  get snapGrid(): number {
+    return this._snapGrid;
+  }
+
+  /**
+   * Set the handle snap grid size for the split layout.
    */
-  get spacing(): number {
-    return this._spacing;
+  set snapGrid(value: number) {
+    this._snapGrid = Math.max(0, Math.floor(value));
   }
 
   /**
-   * Set the inter-element spacing for the split layout.
+   * Get the distance within which a handle snaps to a snap point.
+   *
+   * #### Notes
+   * The default is `8`.
    */
-  set spacing(value: number) {
-    value = Math.max(0, Math.floor(value));
-    if (this._spacing === value) {
-      return;
-    }
-    this._spacing = value;
-    if (!this.parent) {
-      return;
-    }
-    this.parent.fit();
+  get snapDistance(): number {
+    return this._snapDistance;
+  }
+
+  /**
+   * Set the distance within which a handle snaps to a snap point.
+   */
+  set snapDistance(value: number) {
+    this._snapDistance = Math.max(0, value);
   }
 
   /**
@@ -575,6 +1171,161 @@ class SplitLayout extends PanelLayout {
     if (this.parent) this.parent.update();
   }
 
+  /**
+   * Get the size constraints for the widget at the given index.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * @returns A new object holding the size constraints of the widget,
+   *   or `null` if the index is out of range.
+   */
+  sizeConstraints(index: number): ISizeConstraints {
+    let constraints = this._constraints.at(index);
+    if (!constraints) {
+      return null;
+    }
+    return { minSize: constraints.minSize, maxSize: constraints.maxSize };
+  }
+
+  /**
+   * Set the size constraints for the widget at the given index.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * @param constraints - The size constraints for the widget.
+   *
+   * #### Notes
+   * The constraints apply along the layout orientation, in addition to
+   * the CSS size limits of the widget node. Where the two conflict, the
+   * more restrictive limit wins.
+   *
+   * The constraints move with the widget when it is reordered.
+   *
+   * If the index is out of range, this is a no-op.
+   */
+  setSizeConstraints(index: number, constraints: ISizeConstraints): void {
+    if (index < 0 || index >= this._constraints.length) {
+      return;
+    }
+    let minSize = Math.max(0, constraints.minSize);
+    let maxSize = Math.max(minSize, constraints.maxSize);
+    this._constraints.set(index, { minSize, maxSize });
+    if (this.parent) this.parent.fit();
+  }
+
+  /**
+   * Test whether the widget at the given index is collapsed.
+   *
+   * @param index - The index of the widget of interest.
+   *
+   * @returns `true` if the widget is collapsed, `false` otherwise.
+   */
+  isCollapsed(index: number): boolean {
+    if (index < 0 || index >= this._restoreSizes.length) {
+      return false;
+    }
+    return this._restoreSizes.at(index) !== -1;
+  }
+
+  /**
+   * Collapse the widget at the given index.
+   *
+   * @param index - The index of the widget to collapse.
+   *
+   * #### Notes
+   * The widget is sized to its minimum size and the space it frees is
+   * given to the adjacent widget. A collapsed widget is not resized by
+   * handle movement until it is expanded.
+   *
+   * Widgets can be collapsed programmatically, irrespective of their
+   * `collapsible` property.
+   *
+   * If the index is out of range, this is a no-op.
+   */
+  collapse(index: number): void {
+    // Bail if the index is invalid or the widget is already collapsed.
+    if (index < 0 || index >= this._sizers.length || this.isCollapsed(index)) {
+      return;
+    }
+
+    // Prevent widget resizing unless needed.
+    each(this._sizers, sizer => {
+      if (sizer.size > 0) sizer.sizeHint = sizer.size;
+    });
+
+    // Save the current size of the widget for a later expand.
+    let sizer = this._sizers.at(index);
+    this._restoreSizes.set(index, sizer.size);
+
+    // Give the space freed by the widget to the adjacent widget.
+    let freed = Math.max(0, sizer.size - sizer.minSize);
+    let other = Private.adjacentIndex(this, index);
+    if (other !== -1) {
+      let adjacent = this._sizers.at(other);
+      adjacent.sizeHint = adjacent.size = adjacent.size + freed;
+    }
+
+    // Clamp the widget to its minimum size.
+    sizer.sizeHint = sizer.size = sizer.minSize;
+    sizer.maxSize = sizer.minSize;
+
+    // Update the widget and notify the change.
+    let widget = this.widgets.at(index);
+    widget.addClass(COLLAPSED_CLASS);
+    this.collapsedChanged.emit({ index, widget, collapsed: true });
+
+    // Post a layout request for the parent widget.
+    if (this.parent) this.parent.fit();
+  }
+
+  /**
+   * Expand the collapsed widget at the given index.
+   *
+   * @param index - The index of the widget to expand.
+   *
+   * #### Notes
+   * The widget is restored as close as possible to its size from before
+   * it was collapsed, taking the space from the adjacent widget.
+   *
+   * If the index is out of range, this is a no-op.
+   */
+  expand(index: number): void {
+    // Bail if the widget is not collapsed.
+    if (!this.isCollapsed(index)) {
+      return;
+    }
+
+    // Prevent widget resizing unless needed.
+    each(this._sizers, sizer => {
+      if (sizer.size > 0) sizer.sizeHint = sizer.size;
+    });
+
+    // Look up and clear the saved size of the widget.
+    let sizer = this._sizers.at(index);
+    let size = this._restoreSizes.at(index);
+    this._restoreSizes.set(index, -1);
+
+    // Take the space for the widget from the adjacent widget.
+    let other = Private.adjacentIndex(this, index);
+    if (other !== -1) {
+      let adjacent = this._sizers.at(other);
+      let delta = Math.min(size - sizer.size, adjacent.size - adjacent.minSize);
+      size = sizer.size + Math.max(0, delta);
+      adjacent.sizeHint = adjacent.size = adjacent.size - Math.max(0, delta);
+    }
+
+    // Restore the widget to its saved size.
+    sizer.sizeHint = sizer.size = size;
+
+    // Update the widget and notify the change.
+    let widget = this.widgets.at(index);
+    widget.removeClass(COLLAPSED_CLASS);
+    this.collapsedChanged.emit({ index, widget, collapsed: false });
+
+    // Post a layout request for the parent widget.
+    if (this.parent) this.parent.fit();
+  }
+
   /**
    * Set the offset position of a split handle.
    *
@@ -588,6 +1339,9 @@ class SplitLayout extends PanelLayout {
    * This will move the handle as close as possible to the desired
    * position. The sibling widgets will be adjusted as necessary.
    *
+   * A `collapsible` widget which would be shrunk past the collapse
+   * threshold is collapsed instead.
+   *
    * #### Undefined Behavior
    * An `index` which is non-integral or out of range.
    */
@@ -611,6 +1365,13 @@ class SplitLayout extends PanelLayout {
       return;
     }
 
+    // Collapse the shrinking widget if it is moved past the threshold.
+    let target = delta > 0 ? Private.nextVisibleIndex(this.widgets, index) : index;
+    if (target !== -1 && this._shouldCollapse(target, Math.abs(delta))) {
+      this.collapse(target);
+      return;
+    }
+
     // Prevent widget resizing unless needed.
     each(this._sizers, sizer => {
       if (sizer.size > 0) sizer.sizeHint = sizer.size;
@@ -627,6 +1388,116 @@ class SplitLayout extends PanelLayout {
     if (this.parent) this.parent.update();
   }
 
+  /**
+   * Clamp a handle position to the position the handle can reach.
+   *
+   * @param index - The index of the handle of the interest.
+   *
+   * @param position - The desired offset position of the handle.
+   *
+   * @returns The offset position where the handle would land if it
+   *   were moved with [[setHandlePosition]].
+   *
+   * #### Notes
+   * The position is limited by the minimum and maximum sizes of the
+   * widgets, including collapsed widgets and the size constraints. A
+   * position which would collapse a widget is mapped to where the
+   * handle lands after the collapse.
+   *
+   * If the index is invalid or the handle is hidden, the position is
+   * returned unchanged.
+   */
+  clampHandlePosition(index: number, position: number): number {
+    // Bail if the index is invalid or the handle is hidden.
+    let handle = this._handles.at(index);
+    if (!handle || handle.classList.contains(HIDDEN_CLASS)) {
+      return position;
+    }
+
+    // Compute the desired delta movement for the handle.
+    let offset: number;
+    if (this._orientation === Orientation.Horizontal) {
+      offset = handle.offsetLeft;
+    } else {
+      offset = handle.offsetTop;
+    }
+    let delta = position - offset;
+
+    // Bail if there is no handle movement.
+    if (delta === 0) {
+      return position;
+    }
+
+    // Land past the space freed by a widget which would collapse.
+    let target = delta > 0 ? Private.nextVisibleIndex(this.widgets, index) : index;
+    if (target !== -1 && this._shouldCollapse(target, Math.abs(delta))) {
+      let sizer = this._sizers.at(target);
+      let freed = Math.max(0, sizer.size - sizer.minSize);
+      return delta > 0 ? offset + freed : offset - freed;
+    }
+
+    // Otherwise, clamp the delta to the sizer limits.
+    return offset + Private.clampDelta(this._sizers, index, delta);
+  }
+
+  /**
+   * Snap a handle position to the nearest snap point.
+   *
+   * @param position - The desired offset position of a handle.
+   *
+   * @returns The position of the nearest snap point within the snap
+   *   distance, or the original position if there is none.
+   *
+   * #### Notes
+   * The position is relative to the offset parent.
+   *
+   * Snapping applies to pointer drags, which are snapped by the split
+   * panel before calling [[setHandlePosition]]. Programmatic and
+   * keyboard moves are not snapped, so they can always leave a snap
+   * point.
+   */
+  snapPosition(position: number): number {
+    // Bail early if there are no snap points or no parent to measure.
+    if (!this.parent || (this._snapRatios.length === 0 && this._snapGrid === 0)) {
+      return position;
+    }
+
+    // Compute the layout bounds adjusted for border and padding.
+    let start: number;
+    let extent: number;
+    let node = this.parent.node;
+    let box = this._box || (this._box = boxSizing(node));
+    if (this._orientation === Orientation.Horizontal) {
+      start = box.paddingLeft;
+      extent = node.offsetWidth - box.horizontalSum;
+    } else {
+      start = box.paddingTop;
+      extent = node.offsetHeight - box.verticalSum;
+    }
+
+    // Find the nearest snap point within the snap distance.
+    let result = position;
+    let best = this._snapDistance;
+    let offset = this._spacing / 2;
+    for (let i = 0, n = this._snapRatios.length; i < n; ++i) {
+      let point = Math.round(start + this._snapRatios[i] * extent - offset);
+      let dist = Math.abs(position - point);
+      if (dist <= best) {
+        best = dist;
+        result = point;
+      }
+    }
+    if (this._snapGrid > 0) {
+      let grid = this._snapGrid;
+      let point = start + Math.round((position - start) / grid) * grid;
+      let dist = Math.abs(position - point);
+      if (dist <= best) {
+        result = point;
+      }
+    }
+    return result;
+  }
+
   /**
    * Attach a widget to the parent's DOM node.
    *
@@ -644,6 +1515,11 @@ class SplitLayout extends PanelLayout {
     let sizer = Private.createSizer(average);
     this._sizers.insert(index, sizer);
     this._handles.insert(index, handle);
+    this._restoreSizes.insert(index, -1);
+    this._constraints.insert(index, Private.createConstraints());
+
+    // Update the ARIA orientation of the new handle.
+    Private.updateHandleOrientation(this._handles, this._orientation);
 
     // Prepare the layout geometry for the widget.
     prepareGeometry(widget);
@@ -675,6 +1551,8 @@ class SplitLayout extends PanelLayout {
     // Move the sizer and handle for the widget.
     move(this._sizers, fromIndex, toIndex);
     move(this._handles, fromIndex, toIndex);
+    move(this._restoreSizes, fromIndex, toIndex);
+    move(this._constraints, fromIndex, toIndex);
 
     // Post a fit request to the parent to show/hide last handle.
     this.parent.fit();
@@ -697,6 +1575,11 @@ class SplitLayout extends PanelLayout {
     // Remove the sizer and handle for the widget.
     this._sizers.remove(index);
     this._handles.remove(index);
+    this._restoreSizes.remove(index);
+    this._constraints.remove(index);
+
+    // Clear the collapsed state of the widget.
+    widget.removeClass(COLLAPSED_CLASS);
 
     // Send a `'before-detach'` message if the parent is attached.
     if (this.parent.isAttached) sendMessage(widget, WidgetMessage.BeforeDetach);
@@ -840,19 +1723,19 @@ class SplitLayout extends PanelLayout {
         continue;
       }
       let limits = sizeLimits(widget.node);
+      let collapsed = this.isCollapsed(i);
+      let constraints = this._constraints.at(i);
       sizer.stretch = SplitLayout.getStretch(widget);
       if (horz) {
-        sizer.minSize = limits.minWidth;
-        sizer.maxSize = limits.maxWidth;
-        minW += limits.minWidth;
-        maxW += limits.maxWidth;
+        Private.constrainSizer(sizer, limits.minWidth, limits.maxWidth, constraints, collapsed);
+        minW += sizer.minSize;
+        maxW += sizer.maxSize;
         minH = Math.max(minH, limits.minHeight);
         maxH = Math.min(maxH, limits.maxHeight);
       } else {
-        sizer.minSize = limits.minHeight;
-        sizer.maxSize = limits.maxHeight;
-        minH += limits.minHeight;
-        maxH += limits.maxHeight;
+        Private.constrainSizer(sizer, limits.minHeight, limits.maxHeight, constraints, collapsed);
+        minH += sizer.minSize;
+        maxH += sizer.maxSize;
         minW = Math.max(minW, limits.minWidth);
         maxW = Math.min(maxW, limits.maxWidth);
       }
@@ -956,6 +1839,22 @@ class SplitLayout extends PanelLayout {
         top += spacing;
       }
     }
+
+    // Update the ARIA values of the handles.
+    Private.updateHandleValues(this._handles, this._sizers);
+  }
+
+  /**
+   * Test whether a widget should collapse when shrunk by a delta.
+   */
+  private _shouldCollapse(index: number, delta: number): boolean {
+    let widget = this.widgets.at(index);
+    if (!SplitLayout.getCollapsible(widget) || this.isCollapsed(index)) {
+      return false;
+    }
+    let sizer = this._sizers.at(index);
+    let threshold = Math.max(COLLAPSE_THRESHOLD, sizer.minSize - COLLAPSE_THRESHOLD);
+    return sizer.size - delta < threshold;
   }
 
   private _fixed = 0;
@@ -965,10 +1864,19 @@ class SplitLayout extends PanelLayout {
   private _factory: IHandleFactory;
   private _sizers = new Vector<BoxSizer>();
   private _handles = new Vector<HTMLElement>();
+  private _snapGrid = 0;
+  private _snapDistance = 8;
+  private _snapRatios: number[] = [];
+  private _restoreSizes = new Vector<number>();
+  private _constraints = new Vector<ISizeConstraints>();
   private _orientation = Orientation.Horizontal;
 }
 
 
+// Define the signals for the `SplitLayout` class.
+defineSignal(SplitLayout.prototype, 'collapsedChanged');
+
+
 /**
  * The namespace for the `SplitLayout` class statics.
  */
@@ -1009,6 +1917,35 @@ namespace SplitLayout {
   function setStretch(widget: Widget, value: number): void {
     Private.stretchProperty.set(widget, value);
   }
+
+  /**
+   * Get whether the given widget is collapsible by the user.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @returns Whether the widget is collapsible by the user.
+   */
+  export
+  function getCollapsible(widget: Widget): boolean {
+    return Private.collapsibleProperty.get(widget);
+  }
+
+  /**
+   * Set whether the given widget is collapsible by the user.
+   *
+   * @param widget - The widget of interest.
+   *
+   * @param value - Whether the widget is collapsible by the user.
+   *
+   * #### Notes
+   * A collapsible widget is toggled by double clicking an adjacent
+   * split handle, and collapses when its handle is dragged past the
+   * collapse threshold.
+   */
+  export
+  function setCollapsible(widget: Widget, value: boolean): void {
+    Private.collapsibleProperty.set(widget, value);
+  }
 }
 
 
@@ -1017,7 +1954,7 @@ namespace SplitLayout {
  */
 namespace Private {
   /**
-   * An object which holds mouse press data.
+   * An object which holds pointer press data.
    */
   export
   interface IPressData {
@@ -1031,10 +1968,60 @@ namespace Private {
      */
     delta: number;
 
+    /**
+     * The id of the captured pointer, or `-1` if not captured.
+     */
+    pointerId: number;
+
     /**
      * The disposable which will clear the override cursor.
      */
     override: IDisposable;
+
+    /**
+     * The most recent desired handle position.
+     */
+    pos: number;
+
+    /**
+     * The ghost handle of a deferred resize, or `null`.
+     */
+    ghost: HTMLElement;
+
+    /**
+     * The pending animation frame of a throttled resize, or `-1`.
+     */
+    frameID: number;
+  }
+
+  /**
+   * Create a ghost handle which overlays the given handle.
+   */
+  export
+  function createGhostHandle(handle: HTMLElement): HTMLElement {
+    let ghost = document.createElement('div');
+    ghost.className = GHOST_HANDLE_CLASS;
+    let style = ghost.style;
+    style.position = 'absolute';
+    style.left = `${handle.offsetLeft}px`;
+    style.top = `${handle.offsetTop}px`;
+    style.width = `${handle.offsetWidth}px`;
+    style.height = `${handle.offsetHeight}px`;
+    return ghost;
+  }
+
+  /**
+   * Move a ghost handle to a position clamped to the panel bounds.
+   */
+  export
+  function moveGhostHandle(ghost: HTMLElement, node: HTMLElement, pos: number, horz: boolean): void {
+    if (horz) {
+      let max = node.clientWidth - ghost.offsetWidth;
+      ghost.style.left = `${Math.max(0, Math.min(pos, max))}px`;
+    } else {
+      let max = node.clientHeight - ghost.offsetHeight;
+      ghost.style.top = `${Math.max(0, Math.min(pos, max))}px`;
+    }
   }
 
   /**
@@ -1054,6 +2041,15 @@ namespace Private {
     changed: onChildPropertyChanged
   });
 
+  /**
+   * The property descriptor for a widget collapsible flag.
+   */
+  export
+  const collapsibleProperty = new AttachedProperty<Widget, boolean>({
+    name: 'collapsible',
+    value: false
+  });
+
   /**
    * Create a new box sizer with the given size hint.
    */
@@ -1064,6 +2060,28 @@ namespace Private {
     return sizer;
   }
 
+  /**
+   * Create a new unconstrained size constraints object.
+   */
+  export
+  function createConstraints(): ISizeConstraints {
+    return { minSize: 0, maxSize: Infinity };
+  }
+
+  /**
+   * Update the limits of a sizer from its size limits and constraints.
+   *
+   * The more restrictive of the two limits wins, and a collapsed sizer
+   * is locked to its minimum size.
+   */
+  export
+  function constrainSizer(sizer: BoxSizer, min: number, max: number, constraints: ISizeConstraints, collapsed: boolean): void {
+    let minSize = Math.max(min, constraints.minSize);
+    let maxSize = Math.max(minSize, Math.min(max, constraints.maxSize));
+    sizer.minSize = minSize;
+    sizer.maxSize = collapsed ? minSize : maxSize;
+  }
+
   /**
    * Create a new split handle using the given factory.
    */
@@ -1083,6 +2101,67 @@ namespace Private {
     widget.toggleClass(VERTICAL_CLASS, orient === Orientation.Vertical);
   }
 
+  /**
+   * Update the ARIA orientation of the given split handles.
+   *
+   * The handle orientation is perpendicular to the layout orientation.
+   */
+  export
+  function updateHandleOrientation(handles: Vector<HTMLElement>, orient: Orientation): void {
+    let value = orient === Orientation.Horizontal ? 'vertical' : 'horizontal';
+    each(handles, handle => { handle.setAttribute('aria-orientation', value); });
+  }
+
+  /**
+   * Update the ARIA values of the split handles from the box sizers.
+   *
+   * The value of a handle is the size of the widget which precedes it,
+   * bounded by the limits of the adjacent sizers.
+   */
+  export
+  function updateHandleValues(handles: Vector<HTMLElement>, sizers: Vector<BoxSizer>): void {
+    for (let i = 0, n = handles.length - 1; i < n; ++i) {
+      let handle = handles.at(i);
+      let prev = sizers.at(i);
+      let next = sizers.at(i + 1);
+      let max = Math.min(prev.maxSize, prev.size + next.size - next.minSize);
+      handle.setAttribute('aria-valuenow', `${Math.round(prev.size)}`);
+      handle.setAttribute('aria-valuemin', `${Math.round(prev.minSize)}`);
+      handle.setAttribute('aria-valuemax', `${Math.round(max)}`);
+    }
+  }
+
+  /**
+   * Find the index of the first visible widget after the given index.
+   *
+   * Returns `-1` if there is no such widget.
+   */
+  export
+  function nextVisibleIndex(widgets: ISequence<Widget>, index: number): number {
+    for (let i = index + 1, n = widgets.length; i < n; ++i) {
+      if (!widgets.at(i).isHidden) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Find the index of the expanded visible widget nearest to a widget.
+   *
+   * The following widgets are searched before the preceding widgets.
+   * Returns `-1` if there is no such widget.
+   */
+  export
+  function adjacentIndex(layout: SplitLayout, index: number): number {
+    let widgets = layout.widgets;
+    for (let i = index + 1, n = widgets.length; i < n; ++i) {
+      if (!widgets.at(i).isHidden && !layout.isCollapsed(i)) return i;
+    }
+    for (let i = index - 1; i >= 0; --i) {
+      if (!widgets.at(i).isHidden && !layout.isCollapsed(i)) return i;
+    }
+    return -1;
+  }
+
   /**
    * Compute the average size of a vector of box sizers.
    */
@@ -1091,6 +2170,36 @@ namespace Private {
     return reduce(sizers, (v, s) => v + s.size, 0) / sizers.length || 0;
   }
 
+  /**
+   * Clamp a handle delta to the limits of the adjacent sizers.
+   *
+   * This applies the same limits as `growSizer` and `shrinkSizer`.
+   */
+  export
+  function clampDelta(sizers: Vector<BoxSizer>, index: number, delta: number): number {
+    // Sum the room to grow and shrink on each side of the handle.
+    let growLeft = 0;
+    let shrinkLeft = 0;
+    let growRight = 0;
+    let shrinkRight = 0;
+    for (let i = 0, n = sizers.length; i < n; ++i) {
+      let sizer = sizers.at(i);
+      if (i <= index) {
+        growLeft += sizer.maxSize - sizer.size;
+        shrinkLeft += sizer.size - sizer.minSize;
+      } else {
+        growRight += sizer.maxSize - sizer.size;
+        shrinkRight += sizer.size - sizer.minSize;
+      }
+    }
+
+    // Clamp the delta in the direction of the movement.
+    if (delta > 0) {
+      return Math.max(0, Math.min(delta, growLeft, shrinkRight));
+    }
+    return -Math.max(0, Math.min(-delta, growRight, shrinkLeft));
+  }
+
   /**
    * Grow a sizer to the right by a positive delta and adjust neighbors.
    */
@@ -5,6 +5,10 @@
 |
 | The full license is in the file LICENSE, distributed with this software.
 |----------------------------------------------------------------------------*/
+import {
+  each
+} from 'phosphor-core/lib/iteration';
+
 import {
   Message, sendMessage
 } from 'phosphor-core/lib/messaging';
@@ -40,6 +44,63 @@ const STACKED_PANEL_CLASS = 'p-StackedPanel';
  */
 const CHILD_CLASS = 'p-StackedPanel-child';
 
+/**
+ * The class name added to a stacked panel during a fade transition.
+ */
+const FADE_CLASS = 'p-mod-fade';
+
+/**
+ * The class name added to a stacked panel during a slide left transition.
+ */
+const SLIDE_LEFT_CLASS = 'p-mod-slide-left';
+
+/**
+ * The class name added to a stacked panel during a slide right transition.
+ */
+const SLIDE_RIGHT_CLASS = 'p-mod-slide-right';
+
+/**
+ * The class name added to the incoming child during a transition.
+ */
+const ENTERING_CLASS = 'p-mod-entering';
+
+/**
+ * The class name added to the outgoing children during a transition.
+ */
+const LEAVING_CLASS = 'p-mod-leaving';
+
+/**
+ * The page transition duration.
+ */
+const TRANSITION_DURATION = 200;  // Keep in sync with CSS.
+
+
+/**
+ * An enum of the page transition modes for a stacked panel.
+ */
+export
+enum TransitionMode {
+  /**
+   * The pages are switched instantly.
+   */
+  None,
+
+  /**
+   * The outgoing page fades out as the incoming page fades in.
+   */
+  Fade,
+
+  /**
+   * The pages slide towards the left.
+   */
+  SlideLeft,
+
+  /**
+   * The pages slide towards the right.
+   */
+  SlideRight
+}
+
 
 /**
  * A panel where visible widgets are stacked atop one another.
@@ -64,11 +125,110 @@ class StackedPanel extends Panel {
     this.addClass(STACKED_PANEL_CLASS);
   }
 
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    this._finishTransition();
+    super.dispose();
+  }
+
   /**
    * A signal emitted when a widget is removed from a stacked panel.
    */
   widgetRemoved: ISignal<StackedPanel, Widget>;
 
+  /**
+   * A signal emitted when a call to `transitionTo` is complete.
+   *
+   * #### Notes
+   * The argument is the widget which was transitioned to.
+   *
+   * This signal is emitted synchronously when no transition is run.
+   */
+  transitionFinished: ISignal<StackedPanel, Widget>;
+
+  /**
+   * Get the page transition mode for the stacked panel.
+   *
+   * #### Notes
+   * The default is `TransitionMode.None`.
+   */
+  get transitionMode(): TransitionMode {
+    return this._transitionMode;
+  }
+
+  /**
+   * Set the page transition mode for the stacked panel.
+   *
+   * #### Notes
+   * This does not affect a transition in progress.
+   */
+  set transitionMode(value: TransitionMode) {
+    this._transitionMode = value;
+  }
+
+  /**
+   * Make a widget the only visible widget in the stacked panel.
+   *
+   * @param widget - The child widget to show.
+   *
+   * #### Notes
+   * The other visible widgets are hidden, using the current transition
+   * mode. During a transition, the outgoing and incoming widgets are
+   * both visible, and the outgoing widgets are not hidden, and so are
+   * not sent a `'before-hide'` message, until the transition ends.
+   *
+   * A transition in progress is finished immediately.
+   *
+   * This is a no-op if the widget is not a child of the panel.
+   */
+  transitionTo(widget: Widget): void {
+    // Bail if the widget is not a child of the panel.
+    if (widget.parent !== this) {
+      return;
+    }
+
+    // Finish the pending transition.
+    this._finishTransition();
+
+    // Collect the other visible widgets.
+    let leaving: Widget[] = [];
+    each(this.widgets, child => {
+      if (child !== widget && !child.isHidden) leaving.push(child);
+    });
+
+    // Show the incoming widget.
+    widget.show();
+
+    // Switch instantly if there is nothing to animate.
+    let mode = this._transitionMode;
+    if (mode === TransitionMode.None || leaving.length === 0 || !this.isVisible) {
+      for (let i = 0, n = leaving.length; i < n; ++i) {
+        leaving[i].hide();
+      }
+      this.transitionFinished.emit(widget);
+      return;
+    }
+
+    // Add the transition classes.
+    this.addClass(Private.modeClass(mode));
+    widget.addClass(ENTERING_CLASS);
+    for (let i = 0, n = leaving.length; i < n; ++i) {
+      leaving[i].addClass(LEAVING_CLASS);
+    }
+
+    // Complete the transition on a timer to allow the animation.
+    let data = new Private.TransitionData();
+    data.mode = mode;
+    data.entering = widget;
+    data.leaving = leaving;
+    data.timerID = setTimeout(() => {
+      this._finishTransition();
+    }, TRANSITION_DURATION);
+    this._transition = data;
+  }
+
   /**
    * A message handler invoked on a `'child-added'` message.
    */
@@ -81,13 +241,50 @@ class StackedPanel extends Panel {
    */
   protected onChildRemoved(msg: ChildMessage): void {
     msg.child.removeClass(CHILD_CLASS);
+    msg.child.removeClass(ENTERING_CLASS);
+    msg.child.removeClass(LEAVING_CLASS);
     this.widgetRemoved.emit(msg.child);
   }
+
+  /**
+   * Complete the pending transition, if any.
+   */
+  private _finishTransition(): void {
+    // Bail if there is no pending transition.
+    let data = this._transition;
+    if (!data) {
+      return;
+    }
+
+    // Clear the transition data and the timer.
+    this._transition = null;
+    clearTimeout(data.timerID);
+
+    // Remove the transition classes.
+    this.removeClass(Private.modeClass(data.mode));
+    data.entering.removeClass(ENTERING_CLASS);
+    for (let i = 0, n = data.leaving.length; i < n; ++i) {
+      data.leaving[i].removeClass(LEAVING_CLASS);
+    }
+
+    // Hide the outgoing widgets which are still children.
+    for (let i = 0, n = data.leaving.length; i < n; ++i) {
+      let child = data.leaving[i];
+      if (child.parent === this) child.hide();
+    }
+
+    // Emit the transition finished signal.
+    this.transitionFinished.emit(data.entering);
+  }
+
+  private _transitionMode = TransitionMode.None;
+  private _transition: Private.TransitionData = null;
 }
 
 
 // Define the signals for the `StackedPanel` class.
 defineSignal(StackedPanel.prototype, 'widgetRemoved');
+defineSignal(StackedPanel.prototype, 'transitionFinished');
 
 
 /**
@@ -343,4 +540,46 @@ namespace Private {
    */
   export
   const IsIE = /Trident/.test(navigator.userAgent);
+
+  /**
+   * A struct which holds the data for a pending page transition.
+   */
+  export
+  class TransitionData {
+    /**
+     * The transition mode.
+     */
+    mode = TransitionMode.None;
+
+    /**
+     * The incoming widget.
+     */
+    entering: Widget = null;
+
+    /**
+     * The outgoing widgets.
+     */
+    leaving: Widget[] = null;
+
+    /**
+     * The id of the completion timer.
+     */
+    timerID = -1;
+  }
+
+  /**
+   * Get the class name for a transition mode.
+   */
+  export
+  function modeClass(mode: TransitionMode): string {
+    switch (mode) {
+    case TransitionMode.Fade:
+      return FADE_CLASS;
+    case TransitionMode.SlideLeft:
+      return SLIDE_LEFT_CLASS;
+    case TransitionMode.SlideRight:
+      return SLIDE_RIGHT_CLASS;
+    }
+    return '';
+  }
 }
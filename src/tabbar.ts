@@ -6,7 +6,7 @@
 | The full license is in the file LICENSE, distributed with this software.
 |----------------------------------------------------------------------------*/
 import {
-  IDisposable
+  DisposableDelegate, IDisposable
 } from 'phosphor-core/lib/disposable';
 
 import {
@@ -45,12 +45,20 @@ import {
   hitTest
 } from './domutil';
 
+import {
+  Menu, MenuItem, MenuItemType
+} from './menu';
+
+import {
+  Orientation
+} from './splitpanel';
+
 import {
   Title
 } from './title';
 
 import {
-  Widget, WidgetFlag
+  ResizeMessage, Widget, WidgetFlag
 } from './widget';
 
 
@@ -99,6 +107,51 @@ const ICON_CLASS = 'p-TabBar-tabIcon';
  */
 const CLOSE_ICON_CLASS = 'p-TabBar-tabCloseIcon';
 
+/**
+ * The class name added to a tab bar scroll button.
+ */
+const SCROLL_BUTTON_CLASS = 'p-TabBar-scrollButton';
+
+/**
+ * The class name added to a tab bar all tabs button.
+ */
+const ALL_TABS_BUTTON_CLASS = 'p-TabBar-allTabsButton';
+
+/**
+ * The class name added to a scrollable tab bar.
+ */
+const SCROLLABLE_CLASS = 'p-mod-scrollable';
+
+/**
+ * The class name added to a scrollable tab bar when its tabs overflow.
+ */
+const OVERFLOWING_CLASS = 'p-mod-overflowing';
+
+/**
+ * The class name added to a scroll button which cannot scroll further.
+ */
+const DISABLED_CLASS = 'p-mod-disabled';
+
+/**
+ * The class name added to a horizontal tab bar.
+ */
+const HORIZONTAL_CLASS = 'p-mod-horizontal';
+
+/**
+ * The class name added to a vertical tab bar.
+ */
+const VERTICAL_CLASS = 'p-mod-vertical';
+
+/**
+ * The class name added to a tab bar drop indicator node.
+ */
+const DROP_INDICATOR_CLASS = 'p-TabBar-dropIndicator';
+
+/**
+ * The class name added to a tab bar while a tab is dragged over it.
+ */
+const DROP_TARGET_CLASS = 'p-mod-drop-target';
+
 /**
  * The class name added to a tab bar and tab when dragging.
  */
@@ -114,6 +167,11 @@ const CURRENT_CLASS = 'p-mod-current';
  */
 const CLOSABLE_CLASS = 'p-mod-closable';
 
+/**
+ * The class name added to a pinned tab.
+ */
+const PINNED_CLASS = 'p-mod-pinned';
+
 /**
  * The start drag distance threshold.
  */
@@ -129,6 +187,11 @@ const DETACH_THRESHOLD = 20;
  */
 const TRANSITION_DURATION = 150;  // Keep in sync with CSS.
 
+/**
+ * The pixel distance of a line based wheel scroll.
+ */
+const WHEEL_LINE_SIZE = 20;
+
 
 /**
  * The arguments object for the `currentChanged` signal.
@@ -179,6 +242,23 @@ interface ITabMovedArgs {
 }
 
 
+/**
+ * The arguments object for the `tabActivateRequested` signal.
+ */
+export
+interface ITabActivateArgs {
+  /**
+   * The index of the tab to activate.
+   */
+  index: number;
+
+  /**
+   * The title for the tab.
+   */
+  title: Title;
+}
+
+
 /**
  * The arguments object for the `tabCloseRequested` signal.
  */
@@ -212,19 +292,149 @@ interface ITabDetachArgs {
   title: Title;
 
   /**
-   * The current client X position of the mouse.
+   * The current client X position of the pointer.
+   */
+  clientX: number;
+
+  /**
+   * The current client Y position of the pointer.
+   */
+  clientY: number;
+}
+
+
+/**
+ * The arguments object for the `tabContextMenuRequested` signal.
+ */
+export
+interface ITabContextMenuArgs {
+  /**
+   * The index of the tab.
+   */
+  index: number;
+
+  /**
+   * The title for the tab.
+   */
+  title: Title;
+
+  /**
+   * The client X position of the pointer.
+   */
+  clientX: number;
+
+  /**
+   * The client Y position of the pointer.
+   */
+  clientY: number;
+}
+
+
+/**
+ * The arguments object for a tab drag over a drop target.
+ */
+export
+interface ITabDragArgs {
+  /**
+   * The tab bar which is the source of the drag.
+   */
+  source: TabBar;
+
+  /**
+   * The index of the dragged tab in the source tab bar.
+   */
+  index: number;
+
+  /**
+   * The title for the dragged tab.
+   */
+  title: Title;
+
+  /**
+   * The current client X position of the pointer.
    */
   clientX: number;
 
   /**
-   * The current client Y position of the mouse.
+   * The current client Y position of the pointer.
    */
   clientY: number;
 }
 
 
 /**
- * A widget which displays titles as a row of tabs.
+ * An object which can accept tabs dragged from a tab bar.
+ *
+ * #### Notes
+ * A drop target is registered with `TabBar.registerDropTarget`. A tab
+ * bar registers itself when its `acceptDrops` property is `true`.
+ */
+export
+interface ITabDropTarget {
+  /**
+   * The DOM node which is hit tested against the pointer.
+   */
+  node: HTMLElement;
+
+  /**
+   * Handle a tab dragged over the target.
+   *
+   * @param args - The arguments for the drag.
+   *
+   * @returns `true` if the target will accept the tab on drop.
+   *
+   * #### Notes
+   * This is called for every pointer move over the target, and should
+   * update any insertion indicator shown by the target.
+   */
+  tabDragOver(args: ITabDragArgs): boolean;
+
+  /**
+   * Handle a tab dragged out of the target.
+   *
+   * #### Notes
+   * This is also called when the drag is aborted or dropped, and
+   * should hide any insertion indicator shown by the target.
+   */
+  tabDragLeave(): void;
+
+  /**
+   * Handle a tab dropped on the target.
+   *
+   * @param args - The arguments for the drag.
+   *
+   * #### Notes
+   * This is only called if the last call to `tabDragOver` accepted
+   * the tab. The source tab bar drag is complete when this is called.
+   */
+  tabDrop(args: ITabDragArgs): void;
+}
+
+
+/**
+ * The arguments object for the `tabDropped` signal.
+ */
+export
+interface ITabDroppedArgs {
+  /**
+   * The tab bar which is the source of the drag.
+   */
+  source: TabBar;
+
+  /**
+   * The title for the dropped tab.
+   */
+  title: Title;
+
+  /**
+   * The index at which the title should be inserted.
+   */
+  index: number;
+}
+
+
+/**
+ * A widget which displays titles as a row or column of tabs.
  */
 export
 class TabBar extends Widget {
@@ -241,6 +451,7 @@ class TabBar extends Widget {
     body.className = BODY_CLASS;
     footer.className = FOOTER_CLASS;
     content.className = CONTENT_CLASS;
+    content.setAttribute('role', 'tablist');
     body.appendChild(content);
     node.appendChild(header);
     node.appendChild(body);
@@ -257,6 +468,8 @@ class TabBar extends Widget {
     super();
     this._factory = factory;
     this.addClass(TAB_BAR_CLASS);
+    this.addClass(HORIZONTAL_CLASS);
+    this.contentNode.setAttribute('aria-orientation', 'horizontal');
     this.setFlag(WidgetFlag.DisallowLayout);
   }
 
@@ -265,6 +478,11 @@ class TabBar extends Widget {
    */
   dispose(): void {
     this._releaseMouse();
+    this.acceptDrops = false;
+    if (this._allTabsMenu) {
+      this._allTabsMenu.dispose();
+      this._allTabsMenu = null;
+    }
     this._tabs.clear();
     this._titles.clear();
     this._dirtyTitles.clear();
@@ -289,26 +507,46 @@ class TabBar extends Widget {
    * A signal emitted when a tab is moved by the user.
    *
    * #### Notes
-   * This signal is emitted when a tab is moved by user interaction.
+   * This signal is emitted when a tab is moved by user interaction,
+   * or when a change to a title's `pinned` state moves its tab to the
+   * edge of the pinned tab group.
    *
    * This signal is not emitted when a tab is moved programmatically.
    */
   tabMoved: ISignal<TabBar, ITabMovedArgs>;
 
   /**
-   * A signal emitted when a tab close icon is clicked.
+   * A signal emitted when a tab close is requested by the user.
    *
    * #### Notes
+   * This signal is emitted when the tab close icon is clicked, when
+   * the tab is pressed with the middle button, or when the `Delete`
+   * key is pressed while the tab has the keyboard focus.
+   *
    * This signal is not emitted unless the tab title is `closable`.
    */
   tabCloseRequested: ISignal<TabBar, ITabCloseArgs>;
 
+  /**
+   * A signal emitted when the user selects a tab with a pointer.
+   *
+   * #### Notes
+   * This signal is emitted when a tab is pressed with the primary
+   * button, or chosen from the all tabs menu, even if the tab is
+   * already current. It is emitted after the `currentChanged` signal.
+   *
+   * It is not emitted for keyboard navigation or for programmatic
+   * changes, which allows a consumer to move the focus to the tab
+   * content only when the user asks for it.
+   */
+  tabActivateRequested: ISignal<TabBar, ITabActivateArgs>;
+
   /**
    * A signal emitted when a tab is dragged beyond the detach threshold.
    *
    * #### Notes
-   * This signal is emitted when the user drags a tab with the mouse,
-   * and mouse is dragged beyond the detach threshold.
+   * This signal is emitted when the user drags a tab with a pointer,
+   * and the pointer is dragged beyond the detach threshold.
    *
    * The consumer of the signal should call `releaseMouse` and remove
    * the tab in order to complete the detach.
@@ -317,6 +555,30 @@ class TabBar extends Widget {
    */
   tabDetachRequested: ISignal<TabBar, ITabDetachArgs>;
 
+  /**
+   * A signal emitted when a context menu is requested for a tab.
+   *
+   * #### Notes
+   * This signal is emitted when the user right clicks on a tab. The
+   * browser context menu is suppressed for the tab.
+   *
+   * Applications can use this signal to show a menu with actions such
+   * as "Close Others" or "Close to the Right".
+   */
+  tabContextMenuRequested: ISignal<TabBar, ITabContextMenuArgs>;
+
+  /**
+   * A signal emitted when a tab from another tab bar is dropped.
+   *
+   * #### Notes
+   * This signal is only emitted when `acceptDrops` is `true`.
+   *
+   * The tab bar does not insert the title itself. The consumer of the
+   * signal should insert the title at the given index and remove it
+   * from the source tab bar. `TabPanel` transfers the owner widget.
+   */
+  tabDropped: ISignal<TabBar, ITabDroppedArgs>;
+
   /**
    * Get the tab bar header node.
    *
@@ -391,6 +653,10 @@ class TabBar extends Widget {
    * Get whether the tabs are movable by the user.
    *
    * #### Notes
+   * Movable tabs can be dragged with a pointer, or moved with the
+   * keyboard using `Ctrl+Shift+Left` and `Ctrl+Shift+Right`. The
+   * `Up` and `Down` keys are used instead for a vertical tab bar.
+   *
    * Tabs can be moved programmatically, irrespective of this value.
    */
   get tabsMovable(): boolean {
@@ -407,6 +673,149 @@ class TabBar extends Widget {
     this._tabsMovable = value;
   }
 
+  /**
+   * Get the orientation of the tab bar.
+   *
+   * #### Notes
+   * A horizontal tab bar lays out its tabs as a row, and a vertical
+   * tab bar lays out its tabs as a column.
+   *
+   * The default is `Orientation.Horizontal`.
+   */
+  get orientation(): Orientation {
+    return this._orientation;
+  }
+
+  /**
+   * Set the orientation of the tab bar.
+   *
+   * #### Notes
+   * Changing the orientation will abort a drag in progress.
+   */
+  set orientation(value: Orientation) {
+    if (this._orientation === value) {
+      return;
+    }
+    this._releaseMouse();
+    this._orientation = value;
+    let horz = value === Orientation.Horizontal;
+    this.toggleClass(HORIZONTAL_CLASS, horz);
+    this.toggleClass(VERTICAL_CLASS, !horz);
+    let content = this.contentNode;
+    content.setAttribute('aria-orientation', horz ? 'horizontal' : 'vertical');
+    content.scrollLeft = 0;
+    content.scrollTop = 0;
+    this._scrollPending = true;
+    this.update();
+  }
+
+  /**
+   * Get whether the tab bar accepts tabs dragged from other tab bars.
+   *
+   * #### Notes
+   * When this is `true`, the tab bar is registered as a drop target,
+   * shows an insertion indicator while a tab is dragged over it, and
+   * emits the `tabDropped` signal when the tab is dropped.
+   *
+   * The default is `false`.
+   */
+  get acceptDrops(): boolean {
+    return this._dropTarget !== null;
+  }
+
+  /**
+   * Set whether the tab bar accepts tabs dragged from other tab bars.
+   */
+  set acceptDrops(value: boolean) {
+    if (this.acceptDrops === value) {
+      return;
+    }
+    if (value) {
+      this._dropTarget = TabBar.registerDropTarget({
+        node: this.node,
+        tabDragOver: args => this._tabDragOver(args),
+        tabDragLeave: () => this._tabDragLeave(),
+        tabDrop: args => this._tabDrop(args)
+      });
+    } else {
+      this._tabDragLeave();
+      this._dropTarget.dispose();
+      this._dropTarget = null;
+    }
+  }
+
+  /**
+   * Get whether the tabs are scrolled when they overflow the tab bar.
+   *
+   * #### Notes
+   * A scrollable tab bar keeps the tabs at their natural size and
+   * scrolls the content node when the tabs do not fit. The scroll
+   * buttons are placed in the header and footer nodes.
+   *
+   * The default is `false`.
+   */
+  get scrollable(): boolean {
+    return this._scrollable;
+  }
+
+  /**
+   * Set whether the tabs are scrolled when they overflow the tab bar.
+   */
+  set scrollable(value: boolean) {
+    if (this._scrollable === value) {
+      return;
+    }
+    this._scrollable = value;
+    if (value) {
+      this._prevButton = Private.createButton(SCROLL_BUTTON_CLASS);
+      this._nextButton = Private.createButton(SCROLL_BUTTON_CLASS);
+      this.headerNode.appendChild(this._prevButton);
+      this.footerNode.insertBefore(this._nextButton, this.footerNode.firstChild);
+      this.addClass(SCROLLABLE_CLASS);
+      this._scrollPending = true;
+    } else {
+      this.headerNode.removeChild(this._prevButton);
+      this.footerNode.removeChild(this._nextButton);
+      this._prevButton = null;
+      this._nextButton = null;
+      this.removeClass(SCROLLABLE_CLASS);
+      this.removeClass(OVERFLOWING_CLASS);
+      this.contentNode.scrollLeft = 0;
+      this.contentNode.scrollTop = 0;
+    }
+    this.update();
+  }
+
+  /**
+   * Get whether the all tabs button is shown.
+   *
+   * #### Notes
+   * The all tabs button is placed at the end of the footer node, and
+   * opens a menu which lists the title of every tab in the tab bar.
+   *
+   * The default is `false`.
+   */
+  get allTabsButtonVisible(): boolean {
+    return this._allTabsButton !== null;
+  }
+
+  /**
+   * Set whether the all tabs button is shown.
+   */
+  set allTabsButtonVisible(value: boolean) {
+    if (this.allTabsButtonVisible === value) {
+      return;
+    }
+    if (value) {
+      this._allTabsButton = Private.createButton(ALL_TABS_BUTTON_CLASS);
+      this.footerNode.appendChild(this._allTabsButton);
+    } else {
+      this.footerNode.removeChild(this._allTabsButton);
+      this._allTabsButton = null;
+      if (this._allTabsMenu) this._allTabsMenu.close();
+    }
+  }
+
   /**
    * Get the currently selected tab node.
    *
@@ -488,6 +897,9 @@ class TabBar extends Widget {
     // Update the current index.
     this._currentIndex = i;
 
+    // Scroll the new current tab into view on the next update.
+    this._scrollPending = true;
+
     // Emit the current changed signal.
     this.currentChanged.emit({
       previousIndex: pi, previousTitle: pt,
@@ -534,6 +946,9 @@ class TabBar extends Widget {
 
     // If the title is not in the vector, insert it.
     if (i === -1) {
+      // Keep the index within the pinned group of the title.
+      j = Private.clampToGroup(this._titles, title, j);
+
       // Create the new tab node for the title.
       let tab = this._factory.createTab();
       this._factory.updateTab(tab, title);
@@ -574,6 +989,9 @@ class TabBar extends Widget {
     // Adjust the index if the location is at the end of the vector.
     if (j === this._titles.length) j--;
 
+    // Keep the index within the pinned group of the title.
+    j = Private.clampToGroup(this._titles, title, j);
+
     // Bail if there is no effective move.
     if (i === j) return;
 
@@ -654,10 +1072,48 @@ class TabBar extends Widget {
   }
 
   /**
-   * Release the mouse and restore the non-dragged tab positions.
+   * Scroll the content node so that a tab is fully visible.
+   *
+   * @param index - The index of the tab to scroll into view.
+   *
+   * #### Notes
+   * This is a no-op if the tab bar is not scrollable, or if the index
+   * is out of range.
+   */
+  scrollToTab(index: number): void {
+    // Bail if the tab bar is not scrollable.
+    if (!this._scrollable) {
+      return;
+    }
+
+    // Bail if the index is out of range.
+    let i = Math.floor(index);
+    if (i < 0 || i >= this._tabs.length) {
+      return;
+    }
+
+    // Compute the extent of the tab and of the visible content.
+    let tab = this._tabs.at(i);
+    let content = this.contentNode;
+    let horz = this._orientation === Orientation.Horizontal;
+    let start = horz ? tab.offsetLeft : tab.offsetTop;
+    let end = start + (horz ? tab.offsetWidth : tab.offsetHeight);
+    let scroll = horz ? content.scrollLeft : content.scrollTop;
+    let size = horz ? content.clientWidth : content.clientHeight;
+
+    // Adjust the scroll position if the tab is clipped on either side.
+    if (start < scroll) {
+      Private.setScroll(content, this._orientation, start);
+    } else if (end > scroll + size) {
+      Private.setScroll(content, this._orientation, end - size);
+    }
+  }
+
+  /**
+   * Release the pointer and restore the non-dragged tab positions.
    *
    * #### Notes
-   * This will cause the tab bar to stop handling mouse events and to
+   * This will cause the tab bar to stop handling pointer events and to
    * restore the tabs to their non-dragged positions.
    */
   releaseMouse(): void {
@@ -680,21 +1136,29 @@ class TabBar extends Widget {
     case 'click':
       this._evtClick(event as MouseEvent);
       break;
-    case 'mousedown':
-      this._evtMouseDown(event as MouseEvent);
+    case 'pointerdown':
+      this._evtPointerDown(event as PointerEvent);
       break;
-    case 'mousemove':
-      this._evtMouseMove(event as MouseEvent);
+    case 'pointermove':
+      this._evtPointerMove(event as PointerEvent);
       break;
-    case 'mouseup':
-      this._evtMouseUp(event as MouseEvent);
+    case 'pointerup':
+      this._evtPointerUp(event as PointerEvent);
+      break;
+    case 'pointercancel':
+      this._evtPointerCancel(event as PointerEvent);
       break;
     case 'keydown':
       this._evtKeyDown(event as KeyboardEvent);
       break;
+    case 'wheel':
+      this._evtWheel(event as WheelEvent);
+      break;
+    case 'scroll':
+      this._updateScrollState();
+      break;
     case 'contextmenu':
-      event.preventDefault();
-      event.stopPropagation();
+      this._evtContextMenu(event as MouseEvent);
       break;
     }
   }
@@ -704,7 +1168,12 @@ class TabBar extends Widget {
    */
   protected onAfterAttach(msg: Message): void {
     this.node.addEventListener('click', this);
-    this.node.addEventListener('mousedown', this);
+    this.node.addEventListener('keydown', this);
+    this.node.addEventListener('pointerdown', this);
+    this.node.addEventListener('wheel', this);
+    this.node.addEventListener('contextmenu', this);
+    this.contentNode.addEventListener('scroll', this);
+    this.update();
   }
 
   /**
@@ -712,19 +1181,35 @@ class TabBar extends Widget {
    */
   protected onBeforeDetach(msg: Message): void {
     this.node.removeEventListener('click', this);
-    this.node.removeEventListener('mousedown', this);
+    this.node.removeEventListener('keydown', this);
+    this.node.removeEventListener('pointerdown', this);
+    this.node.removeEventListener('wheel', this);
+    this.node.removeEventListener('contextmenu', this);
+    this.contentNode.removeEventListener('scroll', this);
+    if (this._allTabsMenu) this._allTabsMenu.close();
     this._releaseMouse();
   }
 
   /**
-   * A message handler invoked on an `'update-request'` message.
+   * A message handler invoked on a `'resize'` message.
    */
-  protected onUpdateRequest(msg: Message): void {
-    let tabs = this._tabs;
-    let titles = this._titles;
+  protected onResize(msg: ResizeMessage): void {
+    if (this._scrollable) {
+      this.scrollToTab(this._currentIndex);
+      this._updateScrollState();
+    }
+  }
+
+  /**
+   * A message handler invoked on an `'update-request'` message.
+   */
+  protected onUpdateRequest(msg: Message): void {
+    let tabs = this._tabs;
+    let titles = this._titles;
     let factory = this._factory;
     let dirtyTitles = this._dirtyTitles;
     let currentTitle = this.currentTitle;
+    let focusIndex = Math.max(0, this._currentIndex);
     for (let i = 0, n = tabs.length; i < n; ++i) {
       let tab = tabs.at(i);
       let title = titles.at(i);
@@ -733,19 +1218,130 @@ class TabBar extends Widget {
       }
       if (title === currentTitle) {
         tab.classList.add(CURRENT_CLASS);
+        tab.setAttribute('aria-selected', 'true');
         tab.style.zIndex = `${n}`;
       } else {
         tab.classList.remove(CURRENT_CLASS);
+        tab.setAttribute('aria-selected', 'false');
         tab.style.zIndex = `${n - i - 1}`;
       }
+      tab.tabIndex = i === focusIndex ? 0 : -1;
     }
     dirtyTitles.clear();
+    if (this._scrollPending && this.isVisible) {
+      this._scrollPending = false;
+      this.scrollToTab(this._currentIndex);
+    }
+    this._updateScrollState();
+  }
+
+  /**
+   * Update the overflow state and the enabled state of the scroll buttons.
+   */
+  private _updateScrollState(): void {
+    // Bail if the tab bar is not scrollable.
+    if (!this._scrollable) {
+      return;
+    }
+
+    // Compute the scroll limits of the content node.
+    let content = this.contentNode;
+    let maxScroll: number;
+    let scroll: number;
+    if (this._orientation === Orientation.Horizontal) {
+      maxScroll = content.scrollWidth - content.clientWidth;
+      scroll = content.scrollLeft;
+    } else {
+      maxScroll = content.scrollHeight - content.clientHeight;
+      scroll = content.scrollTop;
+    }
+
+    // Toggle the overflowing class on the tab bar.
+    if (maxScroll > 0) {
+      this.addClass(OVERFLOWING_CLASS);
+    } else {
+      this.removeClass(OVERFLOWING_CLASS);
+    }
+
+    // Disable the scroll buttons which cannot scroll any further.
+    Private.toggleClass(this._prevButton, DISABLED_CLASS, scroll <= 0);
+    Private.toggleClass(this._nextButton, DISABLED_CLASS, scroll >= maxScroll);
+  }
+
+  /**
+   * Scroll the adjacent clipped tab into view.
+   *
+   * @param forward - `true` to scroll forward, `false` to scroll back.
+   */
+  private _scrollStep(forward: boolean): void {
+    let content = this.contentNode;
+    let horz = this._orientation === Orientation.Horizontal;
+    let start = horz ? content.scrollLeft : content.scrollTop;
+    let end = start + (horz ? content.clientWidth : content.clientHeight);
+    let tabs = this._tabs;
+    if (forward) {
+      for (let i = 0, n = tabs.length; i < n; ++i) {
+        let tab = tabs.at(i);
+        let tabEnd = horz ?
+          tab.offsetLeft + tab.offsetWidth :
+          tab.offsetTop + tab.offsetHeight;
+        if (tabEnd > end) {
+          this.scrollToTab(i);
+          return;
+        }
+      }
+    } else {
+      for (let i = tabs.length - 1; i >= 0; --i) {
+        let tab = tabs.at(i);
+        if ((horz ? tab.offsetLeft : tab.offsetTop) < start) {
+          this.scrollToTab(i);
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Open the menu which lists all of the tabs in the tab bar.
+   */
+  private _openAllTabsMenu(): void {
+    // Create the menu on first use.
+    if (!this._allTabsMenu) {
+      this._allTabsMenu = new Menu();
+    }
+
+    // Populate the menu with an item for each title.
+    let menu = this._allTabsMenu;
+    menu.clearItems();
+    each(this._titles, title => {
+      menu.addItem(new MenuItem({
+        type: MenuItemType.Check,
+        label: title.text,
+        icon: title.icon,
+        checked: title === this.currentTitle,
+        handler: () => { this._activateTitle(title); }
+      }));
+    });
+
+    // Open the menu below or beside the all tabs button.
+    let rect = this._allTabsButton.getBoundingClientRect();
+    if (this._orientation === Orientation.Horizontal) {
+      menu.open(rect.left, rect.bottom);
+    } else {
+      menu.open(rect.right, rect.top);
+    }
   }
 
   /**
    * Handle the `'keydown'` event for the tab bar.
    */
   private _evtKeyDown(event: KeyboardEvent): void {
+    // Handle keyboard navigation if a drag is not in progress.
+    if (!this._dragData) {
+      this._evtNavigationKeyDown(event);
+      return;
+    }
+
     // Stop all input events during drag.
     event.preventDefault();
     event.stopPropagation();
@@ -754,6 +1350,103 @@ class TabBar extends Widget {
     if (event.keyCode === 27) this._releaseMouse();
   }
 
+  /**
+   * Handle the keyboard navigation `'keydown'` event for the tab bar.
+   */
+  private _evtNavigationKeyDown(event: KeyboardEvent): void {
+    // Do nothing if the key press is not on a tab.
+    let target = event.target as HTMLElement;
+    let i = findIndex(this._tabs, tab => tab.contains(target));
+    if (i < 0) {
+      return;
+    }
+
+    // Look up the previous and next keys for the orientation.
+    let horz = this._orientation === Orientation.Horizontal;
+    let prevKey = horz ? 37 : 38;  // Left or Up
+    let nextKey = horz ? 39 : 40;  // Right or Down
+
+    // Move the tab if `Ctrl+Shift+Prev` or `Ctrl+Shift+Next` is pressed.
+    let n = this._tabs.length;
+    if (event.ctrlKey && event.shiftKey) {
+      // Ignore the key press if the tabs are not movable.
+      if (!this._tabsMovable) {
+        return;
+      }
+
+      // Compute the target index for the tab.
+      let j: number;
+      switch (event.keyCode) {
+      case prevKey:
+        j = i - 1;
+        break;
+      case nextKey:
+        j = i + 1;
+        break;
+      default:
+        return;
+      }
+
+      // Stop the event when moving a tab.
+      event.preventDefault();
+      event.stopPropagation();
+
+      // Bail if the tab cannot move any further.
+      let title = this._titles.at(i);
+      if (j < 0 || j >= n || Private.clampToGroup(this._titles, title, j) !== j) {
+        return;
+      }
+
+      // Move the tab and emit the tab moved signal.
+      this.insertTab(j, title);
+      this.tabMoved.emit({ fromIndex: i, toIndex: j, title });
+
+      // Restore the focus to the moved tab.
+      this._tabs.at(j).focus();
+      return;
+    }
+
+    // Compute the new current index for the key.
+    let index: number;
+    switch (event.keyCode) {
+    case 35:  // End
+      index = n - 1;
+      break;
+    case 36:  // Home
+      index = 0;
+      break;
+    case prevKey:
+      index = (i + n - 1) % n;
+      break;
+    case nextKey:
+      index = (i + 1) % n;
+      break;
+    case 46:  // Delete
+      // Stop the event when the close key is pressed.
+      event.preventDefault();
+      event.stopPropagation();
+
+      // Emit the tab close requested signal if the title is closable.
+      let title = this._titles.at(i);
+      if (title.closable) {
+        this.tabCloseRequested.emit({ index: i, title });
+      }
+      return;
+    default:
+      return;
+    }
+
+    // Stop the event when navigating the tabs.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Update the current index and move the focus to the new tab.
+    this.currentIndex = index;
+    let tab = this._tabs.at(index);
+    tab.tabIndex = 0;
+    tab.focus();
+  }
+
   /**
    * Handle the `'click'` event for the tab bar.
    */
@@ -768,10 +1461,32 @@ class TabBar extends Widget {
       return;
     }
 
+    // Handle a click on one of the tab bar buttons.
+    let target = event.target as HTMLElement;
+    let prev = this._prevButton;
+    let next = this._nextButton;
+    let all = this._allTabsButton;
+    if (prev && prev.contains(target)) {
+      event.preventDefault();
+      event.stopPropagation();
+      this._scrollStep(false);
+      return;
+    }
+    if (next && next.contains(target)) {
+      event.preventDefault();
+      event.stopPropagation();
+      this._scrollStep(true);
+      return;
+    }
+    if (all && all.contains(target)) {
+      event.preventDefault();
+      event.stopPropagation();
+      this._openAllTabsMenu();
+      return;
+    }
+
     // Do nothing if the click is not on a tab.
-    let x = event.clientX;
-    let y = event.clientY;
-    let i = findIndex(this._tabs, tab => hitTest(tab, x, y));
+    let i = this._findTab(event);
     if (i < 0) {
       return;
     }
@@ -780,9 +1495,9 @@ class TabBar extends Widget {
     event.preventDefault();
     event.stopPropagation();
 
-    // Ignore the click if the title is not closable.
+    // Ignore the click if the title is not closable or is pinned.
     let title = this._titles.at(i);
-    if (!title.closable) {
+    if (!title.closable || title.pinned) {
       return;
     }
 
@@ -797,11 +1512,43 @@ class TabBar extends Widget {
   }
 
   /**
-   * Handle the `'mousedown'` event for the tab bar.
+   * Make a title current and request its activation.
    */
-  private _evtMouseDown(event: MouseEvent): void {
-    // Do nothing if it's not a left mouse press.
-    if (event.button !== 0) {
+  private _activateTitle(title: Title): void {
+    let index = indexOf(this._titles, title);
+    if (index === -1) {
+      return;
+    }
+    this.currentIndex = index;
+    this.tabActivateRequested.emit({ index, title });
+  }
+
+  /**
+   * Find the index of the tab under a mouse event.
+   *
+   * #### Notes
+   * Tabs scrolled partly out of view still extend under the buttons
+   * in the header and footer, so an event is only matched to a tab if
+   * its target and position are within the content node.
+   *
+   * Returns `-1` if the event is not on a visible part of a tab.
+   */
+  private _findTab(event: MouseEvent): number {
+    let content = this.contentNode;
+    let x = event.clientX;
+    let y = event.clientY;
+    if (!content.contains(event.target as HTMLElement) || !hitTest(content, x, y)) {
+      return -1;
+    }
+    return findIndex(this._tabs, tab => hitTest(tab, x, y));
+  }
+
+  /**
+   * Handle the `'wheel'` event for the tab bar.
+   */
+  private _evtWheel(event: WheelEvent): void {
+    // Do nothing if the tab bar is not scrollable.
+    if (!this._scrollable) {
       return;
     }
 
@@ -810,10 +1557,176 @@ class TabBar extends Widget {
       return;
     }
 
-    // Do nothing if the press is not on a tab.
+    // Use the dominant wheel axis as the scroll delta.
+    let delta = event.deltaX;
+    if (Math.abs(event.deltaY) > Math.abs(delta)) {
+      delta = event.deltaY;
+    }
+    if (event.deltaMode === 1) {
+      delta *= WHEEL_LINE_SIZE;
+    }
+
+    // Scroll the content node by the delta.
+    let content = this.contentNode;
+    let orient = this._orientation;
+    let scroll = Private.getScroll(content, orient);
+    Private.setScroll(content, orient, scroll + delta);
+
+    // Only consume the event if the content was actually scrolled.
+    if (Private.getScroll(content, orient) !== scroll) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  }
+
+  /**
+   * Handle a tab from another tab bar dragged over the tab bar.
+   */
+  private _tabDragOver(args: ITabDragArgs): boolean {
+    // Reject the tab if the title is already in the tab bar.
+    if (indexOf(this._titles, args.title) !== -1) {
+      this._tabDragLeave();
+      return false;
+    }
+
+    // Create the drop indicator on first use.
+    if (!this._dropIndicator) {
+      this._dropIndicator = document.createElement('div');
+      this._dropIndicator.className = DROP_INDICATOR_CLASS;
+      this.bodyNode.appendChild(this._dropIndicator);
+      this.addClass(DROP_TARGET_CLASS);
+    }
+
+    // Position the indicator at the insertion point.
+    let index = this._dropIndex(args);
+    let horz = this._orientation === Orientation.Horizontal;
+    let pos = Private.insertionPos(this._tabs, this.contentNode, index, horz);
+    let rect = this.bodyNode.getBoundingClientRect();
+    let style = this._dropIndicator.style;
+    if (horz) {
+      style.left = `${pos - rect.left}px`;
+      style.top = '';
+    } else {
+      style.left = '';
+      style.top = `${pos - rect.top}px`;
+    }
+
+    // Accept the tab.
+    return true;
+  }
+
+  /**
+   * Handle a dragged tab leaving the tab bar.
+   */
+  private _tabDragLeave(): void {
+    if (!this._dropIndicator) {
+      return;
+    }
+    this.bodyNode.removeChild(this._dropIndicator);
+    this._dropIndicator = null;
+    this.removeClass(DROP_TARGET_CLASS);
+  }
+
+  /**
+   * Handle a tab from another tab bar dropped on the tab bar.
+   */
+  private _tabDrop(args: ITabDragArgs): void {
+    this._tabDragLeave();
+    let index = this._dropIndex(args);
+    this.tabDropped.emit({ source: args.source, title: args.title, index });
+  }
+
+  /**
+   * Compute the insertion index for a dragged tab.
+   */
+  private _dropIndex(args: ITabDragArgs): number {
+    let horz = this._orientation === Orientation.Horizontal;
+    let pos = horz ? args.clientX : args.clientY;
+    let index = findIndex(this._tabs, tab => {
+      let rect = tab.getBoundingClientRect();
+      let mid = horz ? rect.left + rect.width / 2 : rect.top + rect.height / 2;
+      return pos < mid;
+    });
+    if (index === -1) index = this._tabs.length;
+    return Private.clampToGroup(this._titles, args.title, index);
+  }
+
+  /**
+   * Handle the `'contextmenu'` event for the tab bar.
+   */
+  private _evtContextMenu(event: MouseEvent): void {
+    // Suppress all context menus during a drag.
+    if (this._dragData) {
+      event.preventDefault();
+      event.stopPropagation();
+      return;
+    }
+
+    // Do nothing if the event is not on a tab.
     let x = event.clientX;
     let y = event.clientY;
-    let i = findIndex(this._tabs, tab => hitTest(tab, x, y));
+    let i = this._findTab(event);
+    if (i < 0) {
+      return;
+    }
+
+    // Replace the browser context menu for the tab.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Emit the tab context menu requested signal.
+    let title = this._titles.at(i);
+    this.tabContextMenuRequested.emit({ index: i, title, clientX: x, clientY: y });
+  }
+
+  /**
+   * Handle the middle button `'pointerdown'` event for the tab bar.
+   */
+  private _evtMiddlePointerDown(event: PointerEvent): void {
+    // Do nothing if a drag is in progress.
+    if (this._dragData) {
+      return;
+    }
+
+    // Do nothing if the press is not on a tab.
+    let i = this._findTab(event);
+    if (i < 0) {
+      return;
+    }
+
+    // Pressing on a tab stops the event and prevents auto-scrolling.
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Emit the tab close requested signal if the title is closable.
+    let title = this._titles.at(i);
+    if (title.closable && !title.pinned) {
+      this.tabCloseRequested.emit({ index: i, title });
+    }
+  }
+
+  /**
+   * Handle the `'pointerdown'` event for the tab bar.
+   */
+  private _evtPointerDown(event: PointerEvent): void {
+    // Handle a middle button press separately.
+    if (event.button === 1) {
+      this._evtMiddlePointerDown(event);
+      return;
+    }
+
+    // Do nothing if it's not a primary button press.
+    if (event.button !== 0) {
+      return;
+    }
+
+    // Do nothing if a drag is in progress.
+    if (this._dragData) {
+      return;
+    }
+
+    // Do nothing if the press is not on a tab.
+    let i = this._findTab(event);
     if (i < 0) {
       return;
     }
@@ -835,25 +1748,34 @@ class TabBar extends Widget {
       this._dragData.tab = this._tabs.at(i);
       this._dragData.pressX = event.clientX;
       this._dragData.pressY = event.clientY;
-      document.addEventListener('mousemove', this, true);
-      document.addEventListener('mouseup', this, true);
+      this._dragData.pointerId = event.pointerId;
+      this.node.setPointerCapture(event.pointerId);
+      document.addEventListener('pointermove', this, true);
+      document.addEventListener('pointerup', this, true);
+      document.addEventListener('pointercancel', this, true);
       document.addEventListener('keydown', this, true);
       document.addEventListener('contextmenu', this, true);
     }
 
-    // Update the current index.
+    // Update the current index and request the tab activation.
     this.currentIndex = i;
+    this.tabActivateRequested.emit({ index: i, title: this._titles.at(i) });
   }
 
   /**
-   * Handle the `'mousemove'` event for the tab bar.
+   * Handle the `'pointermove'` event for the tab bar.
    */
-  private _evtMouseMove(event: MouseEvent): void {
+  private _evtPointerMove(event: PointerEvent): void {
     // Do nothing if no drag is in progress.
     if (!this._dragData) {
       return;
     }
 
+    // Do nothing if the event is not for the drag pointer.
+    if (event.pointerId !== this._dragData.pointerId) {
+      return;
+    }
+
     // Suppress the event during a drag.
     event.preventDefault();
     event.stopPropagation();
@@ -869,12 +1791,23 @@ class TabBar extends Widget {
       }
 
       // Fill in the rest of the drag data measurements.
+      let orient = this._orientation;
+      let horz = orient === Orientation.Horizontal;
+      let content = this.contentNode;
       let tabRect = data.tab.getBoundingClientRect();
-      data.tabLeft = data.tab.offsetLeft;
-      data.tabWidth = tabRect.width;
-      data.tabPressX = data.pressX - tabRect.left;
-      data.tabLayout = Private.snapTabLayout(this._tabs);
-      data.contentRect = this.contentNode.getBoundingClientRect();
+      data.orientation = orient;
+      data.tabPos = horz ? data.tab.offsetLeft : data.tab.offsetTop;
+      data.tabSize = horz ? tabRect.width : tabRect.height;
+      data.tabPressPos = horz ?
+        data.pressX - tabRect.left :
+        data.pressY - tabRect.top;
+      data.tabLayout = Private.snapTabLayout(this._tabs, orient);
+      data.contentRect = content.getBoundingClientRect();
+      data.contentSize = horz ? content.scrollWidth : content.scrollHeight;
+      data.scrollPos = Private.getScroll(content, orient);
+      let title = this._titles.at(data.index);
+      data.minIndex = Private.clampToGroup(this._titles, title, 0);
+      data.maxIndex = Private.clampToGroup(this._titles, title, this._tabs.length - 1);
       data.override = overrideCursor('default');
 
       // Add the dragging style classes.
@@ -885,6 +1818,24 @@ class TabBar extends Widget {
       data.dragActive = true;
     }
 
+    // Update the drop target under the pointer.
+    let target = Private.findDropTarget(this, event.clientX, event.clientY);
+    if (target !== data.dropTarget && data.dropTarget) {
+      data.dropTarget.tabDragLeave();
+      data.dropTarget = null;
+    }
+    if (target && target.tabDragOver(this._dragArgs(event))) {
+      data.dropTarget = target;
+    } else {
+      data.dropTarget = null;
+    }
+
+    // Restore the tab positions while over an accepting target.
+    if (data.dropTarget) {
+      Private.resetTabPositions(this._tabs);
+      return;
+    }
+
     // Emit the detach requested signal if the threshold is exceeded.
     if (!data.detachRequested && Private.detachExceeded(data, event)) {
       // Only emit the signal once per drag cycle.
@@ -910,10 +1861,10 @@ class TabBar extends Widget {
   }
 
   /**
-   * Handle the `'mouseup'` event for the tab bar.
+   * Handle the `'pointerup'` event for the tab bar.
    */
-  private _evtMouseUp(event: MouseEvent): void {
-    // Do nothing if it's not a left mouse release.
+  private _evtPointerUp(event: PointerEvent): void {
+    // Do nothing if it's not a primary button release.
     if (event.button !== 0) {
       return;
     }
@@ -923,23 +1874,41 @@ class TabBar extends Widget {
       return;
     }
 
+    // Do nothing if the event is not for the drag pointer.
+    let data = this._dragData;
+    if (event.pointerId !== data.pointerId) {
+      return;
+    }
+
     // Suppress the event during a drag operation.
     event.preventDefault();
     event.stopPropagation();
 
-    // Remove the extra mouse event listeners.
-    document.removeEventListener('mousemove', this, true);
-    document.removeEventListener('mouseup', this, true);
+    // The pointer capture is released implicitly on pointer up.
+    data.pointerId = -1;
+
+    // Remove the extra pointer event listeners.
+    document.removeEventListener('pointermove', this, true);
+    document.removeEventListener('pointerup', this, true);
+    document.removeEventListener('pointercancel', this, true);
     document.removeEventListener('keydown', this, true);
     document.removeEventListener('contextmenu', this, true);
 
     // Bail early if the drag is not active.
-    let data = this._dragData;
     if (!data.dragActive) {
       this._dragData = null;
       return;
     }
 
+    // Hand the tab over to the drop target under the pointer.
+    if (data.dropTarget) {
+      let target = data.dropTarget;
+      let args = this._dragArgs(event);
+      this._releaseMouse();
+      target.tabDrop(args);
+      return;
+    }
+
     // Position the tab at its final resting position.
     Private.finalizeTabPosition(data);
 
@@ -1003,7 +1972,39 @@ class TabBar extends Widget {
   }
 
   /**
-   * Release the mouse and restore the non-dragged tab positions.
+   * Handle the `'pointercancel'` event for the tab bar.
+   */
+  private _evtPointerCancel(event: PointerEvent): void {
+    // Do nothing if no drag is in progress.
+    if (!this._dragData) {
+      return;
+    }
+
+    // Do nothing if the event is not for the drag pointer.
+    if (event.pointerId !== this._dragData.pointerId) {
+      return;
+    }
+
+    // The pointer capture is released implicitly on pointer cancel.
+    this._dragData.pointerId = -1;
+
+    // Abort the drag and restore the tab positions.
+    this._releaseMouse();
+  }
+
+  /**
+   * Create the drop target arguments for the current drag.
+   */
+  private _dragArgs(event: PointerEvent): ITabDragArgs {
+    let index = this._dragData.index;
+    let title = this._titles.at(index);
+    let clientX = event.clientX;
+    let clientY = event.clientY;
+    return { source: this, index, title, clientX, clientY };
+  }
+
+  /**
+   * Release the pointer and restore the non-dragged tab positions.
    */
   private _releaseMouse(): void {
     // Do nothing if no drag is in progress.
@@ -1011,9 +2012,10 @@ class TabBar extends Widget {
       return;
     }
 
-    // Remove the extra mouse listeners.
-    document.removeEventListener('mousemove', this, true);
-    document.removeEventListener('mouseup', this, true);
+    // Remove the extra pointer listeners.
+    document.removeEventListener('pointermove', this, true);
+    document.removeEventListener('pointerup', this, true);
+    document.removeEventListener('pointercancel', this, true);
     document.removeEventListener('keydown', this, true);
     document.removeEventListener('contextmenu', this, true);
 
@@ -1021,10 +2023,22 @@ class TabBar extends Widget {
     let data = this._dragData;
     this._dragData = null;
 
-    // Indicate the drag has been aborted. This allows the mouse
+    // Release the pointer capture if the pointer is still captured.
+    if (data.pointerId !== -1) {
+      this.node.releasePointerCapture(data.pointerId);
+      data.pointerId = -1;
+    }
+
+    // Indicate the drag has been aborted. This allows the pointer
     // event handlers to return early when the drag is canceled.
     data.dragAborted = true;
 
+    // Notify the drop target that the drag has left.
+    if (data.dropTarget) {
+      data.dropTarget.tabDragLeave();
+      data.dropTarget = null;
+    }
+
     // If the drag is not active, there's nothing more to do.
     if (!data.dragActive) {
       return;
@@ -1045,12 +2059,30 @@ class TabBar extends Widget {
    * Handle the `changed` signal of a title object.
    */
   private _onTitleChanged(sender: Title): void {
+    // Move the tab to the edge of its pinned group if needed.
+    let i = indexOf(this._titles, sender);
+    let j = Private.clampToGroup(this._titles, sender, i);
+    if (i !== j) {
+      this.insertTab(j, sender);
+      this.tabMoved.emit({ fromIndex: i, toIndex: j, title: sender });
+    }
+
+    // Schedule an update of the tab.
     this._dirtyTitles.add(sender);
     this.update();
   }
 
   private _currentIndex = -1;
   private _tabsMovable = false;
+  private _orientation = Orientation.Horizontal;
+  private _scrollable = false;
+  private _scrollPending = false;
+  private _prevButton: HTMLElement = null;
+  private _nextButton: HTMLElement = null;
+  private _allTabsButton: HTMLElement = null;
+  private _allTabsMenu: Menu = null;
+  private _dropTarget: IDisposable = null;
+  private _dropIndicator: HTMLElement = null;
   private _factory: ITabFactory;
   private _titles = new Vector<Title>();
   private _dirtyTitles= new Set<Title>();
@@ -1062,8 +2094,38 @@ class TabBar extends Widget {
 // Define the signals for the `TabBar` class.
 defineSignal(TabBar.prototype, 'currentChanged');
 defineSignal(TabBar.prototype, 'tabMoved');
+defineSignal(TabBar.prototype, 'tabActivateRequested');
 defineSignal(TabBar.prototype, 'tabCloseRequested');
 defineSignal(TabBar.prototype, 'tabDetachRequested');
+defineSignal(TabBar.prototype, 'tabContextMenuRequested');
+defineSignal(TabBar.prototype, 'tabDropped');
+
+
+/**
+ * The namespace for the `TabBar` class statics.
+ */
+export
+namespace TabBar {
+  /**
+   * Register a drop target for tabs dragged from a tab bar.
+   *
+   * @param target - The drop target to register.
+   *
+   * @returns A disposable which will unregister the target.
+   *
+   * #### Notes
+   * While a tab is dragged, the source tab bar hit tests the nodes of
+   * the registered targets, and offers the tab to the target under the
+   * pointer. The source tab bar itself is never offered its own tab.
+   */
+  export
+  function registerDropTarget(target: ITabDropTarget): IDisposable {
+    Private.dropTargets.pushBack(target);
+    return new DisposableDelegate(() => {
+      Private.dropTargets.remove(indexOf(Private.dropTargets, target));
+    });
+  }
+}
 
 
 /**
@@ -1132,6 +2194,9 @@ class TabFactory implements ITabFactory {
     let text = document.createElement('span');
     let close = document.createElement('span');
     node.className = TAB_CLASS;
+    node.tabIndex = -1;
+    node.setAttribute('role', 'tab');
+    node.setAttribute('aria-selected', 'false');
     icon.className = ICON_CLASS;
     text.className = TEXT_CLASS;
     close.className = CLOSE_ICON_CLASS;
@@ -1147,10 +2212,18 @@ class TabFactory implements ITabFactory {
    * @param node - A tab node created by a call to `createTab`.
    *
    * @param title - The title object holding the data for the tab.
+   *
+   * #### Notes
+   * If the title owner has an `id`, the tab's `aria-controls` is set to
+   * the owner id. The `aria-selected` state is managed by the tab bar.
+   *
+   * A pinned tab shows only its icon, so the tab node itself is given
+   * the tooltip, falling back to the title text.
    */
   updateTab(node: HTMLElement, title: Title): void {
     let tabInfix = title.className ? ` ${title.className}` : '';
-    let tabSuffix = title.closable ? ` ${CLOSABLE_CLASS}` : '';
+    let tabSuffix = title.pinned ? ` ${PINNED_CLASS}` : '';
+    if (title.closable && !title.pinned) tabSuffix = ` ${CLOSABLE_CLASS}`;
     let iconSuffix = title.icon ? ` ${title.icon}` : '';
     let icon = node.firstChild as HTMLElement;
     let text = icon.nextSibling as HTMLElement;
@@ -1158,6 +2231,13 @@ class TabFactory implements ITabFactory {
     icon.className = `${ICON_CLASS} ${iconSuffix}`;
     text.textContent = title.text;
     text.title = title.tooltip;
+    node.title = title.pinned ? (title.tooltip || title.text) : '';
+    let id = title.owner ? title.owner.id : '';
+    if (id) {
+      node.setAttribute('aria-controls', id);
+    } else {
+      node.removeAttribute('aria-controls');
+    }
   }
 
   /**
@@ -1209,45 +2289,78 @@ namespace Private {
     index = -1;
 
     /**
-     * The offset left of the tab being dragged.
+     * The orientation of the tab bar at drag start.
+     */
+    orientation = Orientation.Horizontal;
+
+    /**
+     * The offset left or top of the tab being dragged.
      */
-    tabLeft = -1;
+    tabPos = -1;
 
     /**
-     * The offset width of the tab being dragged.
+     * The offset width or height of the tab being dragged.
      */
-    tabWidth = -1;
+    tabSize = -1;
 
     /**
-     * The original mouse X position in tab coordinates.
+     * The original pointer position in tab coordinates.
      */
-    tabPressX = -1;
+    tabPressPos = -1;
 
     /**
-     * The tab target index upon mouse release.
+     * The tab target index upon pointer release.
      */
     targetIndex = -1;
 
+    /**
+     * The minimum target index for the pinned group of the tab.
+     */
+    minIndex = -1;
+
+    /**
+     * The maximum target index for the pinned group of the tab.
+     */
+    maxIndex = -1;
+
     /**
      * The array of tab layout objects snapped at drag start.
      */
     tabLayout: ITabLayout[] = null;
 
     /**
-     * The mouse press client X position.
+     * The pointer press client X position.
      */
     pressX = -1;
 
     /**
-     * The mouse press client Y position.
+     * The pointer press client Y position.
      */
     pressY = -1;
 
+    /**
+     * The id of the captured pointer, or `-1` if not captured.
+     */
+    pointerId = -1;
+
     /**
      * The bounding client rect of the tab bar content node.
      */
     contentRect: ClientRect = null;
 
+    /**
+     * The scroll width or height of the tab bar content node.
+     */
+    contentSize = -1;
+
+    /**
+     * The scroll position of the tab bar content node.
+     *
+     * #### Notes
+     * Wheel scrolling is disabled during a drag, so this is constant.
+     */
+    scrollPos = 0;
+
     /**
      * The disposable to clean up the cursor override.
      */
@@ -1267,6 +2380,51 @@ namespace Private {
      * Whether a detach request as been made.
      */
     detachRequested = false;
+
+    /**
+     * The drop target which accepted the tab, or `null`.
+     */
+    dropTarget: ITabDropTarget = null;
+  }
+
+  /**
+   * The registered tab drop targets.
+   */
+  export
+  const dropTargets = new Vector<ITabDropTarget>();
+
+  /**
+   * Find the drop target under the pointer for a source tab bar.
+   */
+  export
+  function findDropTarget(source: TabBar, clientX: number, clientY: number): ITabDropTarget {
+    for (let i = dropTargets.length - 1; i >= 0; --i) {
+      let target = dropTargets.at(i);
+      if (target.node === source.node) {
+        continue;
+      }
+      if (hitTest(target.node, clientX, clientY)) {
+        return target;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the client position of the insertion point for a drop index.
+   */
+  export
+  function insertionPos(tabs: Vector<HTMLElement>, content: HTMLElement, index: number, horz: boolean): number {
+    if (index < tabs.length) {
+      let rect = tabs.at(index).getBoundingClientRect();
+      return horz ? rect.left : rect.top;
+    }
+    if (tabs.length > 0) {
+      let rect = tabs.at(tabs.length - 1).getBoundingClientRect();
+      return horz ? rect.right : rect.bottom;
+    }
+    let rect = content.getBoundingClientRect();
+    return horz ? rect.left : rect.top;
   }
 
   /**
@@ -1275,40 +2433,46 @@ namespace Private {
   export
   interface ITabLayout {
     /**
-     * The left margin value for the tab.
+     * The leading margin value for the tab.
      */
     margin: number;
 
     /**
-     * The offset left position of the tab.
+     * The offset left or top position of the tab.
      */
-    left: number;
+    pos: number;
 
     /**
-     * The offset width of the tab.
+     * The offset width or height of the tab.
      */
-    width: number;
+    size: number;
   }
 
   /**
    * Get a snapshot of the current tab layout values.
    */
   export
-  function snapTabLayout(tabs: Vector<HTMLElement>): ITabLayout[] {
+  function snapTabLayout(tabs: Vector<HTMLElement>, orient: Orientation): ITabLayout[] {
+    let horz = orient === Orientation.Horizontal;
     let layout = new Array<ITabLayout>(tabs.length);
     for (let i = 0, n = tabs.length; i < n; ++i) {
       let node = tabs.at(i);
-      let left = node.offsetLeft;
-      let width = node.offsetWidth;
+      let pos = horz ? node.offsetLeft : node.offsetTop;
+      let size = horz ? node.offsetWidth : node.offsetHeight;
       let cstyle = window.getComputedStyle(node);
-      let margin = parseInt(cstyle.marginLeft, 10) || 0;
-      layout[i] = { margin, left, width };
+      let value = horz ? cstyle.marginLeft : cstyle.marginTop;
+      let margin = parseInt(value, 10) || 0;
+      layout[i] = { margin, pos, size };
     }
     return layout;
   }
 
   /**
    * Test if the event exceeds the drag detach threshold.
+   *
+   * #### Notes
+   * The threshold is applied on all sides of the content node, so it
+   * works the same for both tab bar orientations.
    */
   export
   function detachExceeded(data: DragData, event: MouseEvent): boolean {
@@ -1326,25 +2490,30 @@ namespace Private {
    */
   export
   function layoutTabs(tabs: Vector<HTMLElement>, data: DragData, event: MouseEvent): void {
+    let horz = data.orientation === Orientation.Horizontal;
+    let clientPos = horz ? event.clientX : event.clientY;
+    let contentPos = horz ? data.contentRect.left : data.contentRect.top;
+    let pressPos = horz ? data.pressX : data.pressY;
+    let localPos = clientPos - contentPos + data.scrollPos;
     let targetIndex = data.index;
-    let targetLeft = event.clientX - data.contentRect.left - data.tabPressX;
-    let targetRight = targetLeft + data.tabWidth;
+    let targetStart = localPos - data.tabPressPos;
+    let targetEnd = targetStart + data.tabSize;
     for (let i = 0, n = tabs.length; i < n; ++i) {
-      let style = tabs.at(i).style;
+      let tab = tabs.at(i);
       let layout = data.tabLayout[i];
-      let threshold = layout.left + (layout.width >> 1);
-      if (i < data.index && targetLeft < threshold) {
-        style.left = `${data.tabWidth + data.tabLayout[i + 1].margin}px`;
+      let threshold = layout.pos + (layout.size >> 1);
+      if (i < data.minIndex || i > data.maxIndex) {
+        clearOffset(tab);
+      } else if (i < data.index && targetStart < threshold) {
+        setOffset(tab, data, data.tabSize + data.tabLayout[i + 1].margin);
         targetIndex = Math.min(targetIndex, i);
-      } else if (i > data.index && targetRight > threshold) {
-        style.left = `${-data.tabWidth - layout.margin}px`;
+      } else if (i > data.index && targetEnd > threshold) {
+        setOffset(tab, data, -data.tabSize - layout.margin);
         targetIndex = Math.max(targetIndex, i);
       } else if (i === data.index) {
-        let ideal = event.clientX - data.pressX;
-        let limit = data.contentRect.width - (data.tabLeft + data.tabWidth);
-        style.left = `${Math.max(-data.tabLeft, Math.min(ideal, limit))}px`;
+        setOffset(tab, data, clampOffset(data, clientPos - pressPos));
       } else {
-        style.left = '';
+        clearOffset(tab);
       }
     }
     data.targetIndex = targetIndex;
@@ -1360,14 +2529,12 @@ namespace Private {
       ideal = 0;
     } else if (data.targetIndex > data.index) {
       let tgt = data.tabLayout[data.targetIndex];
-      ideal = tgt.left + tgt.width - data.tabWidth - data.tabLeft;
+      ideal = tgt.pos + tgt.size - data.tabSize - data.tabPos;
     } else {
       let tgt = data.tabLayout[data.targetIndex];
-      ideal = tgt.left - data.tabLeft;
+      ideal = tgt.pos - data.tabPos;
     }
-    let style = data.tab.style;
-    let limit = data.contentRect.width - (data.tabLeft + data.tabWidth);
-    style.left = `${Math.max(-data.tabLeft, Math.min(ideal, limit))}px`;
+    setOffset(data.tab, data, clampOffset(data, ideal));
   }
 
   /**
@@ -1375,6 +2542,98 @@ namespace Private {
    */
   export
   function resetTabPositions(tabs: Vector<HTMLElement>): void {
-    each(tabs, tab => { tab.style.left = ''; });
+    each(tabs, clearOffset);
+  }
+
+  /**
+   * Clamp a tab index to the pinned group of a title.
+   *
+   * #### Notes
+   * Pinned titles are kept before all unpinned titles, so the index is
+   * clamped to the range which preserves that grouping.
+   */
+  export
+  function clampToGroup(titles: Vector<Title>, title: Title, index: number): number {
+    let count = 0;
+    each(titles, other => { if (other !== title && other.pinned) count++; });
+    return title.pinned ? Math.min(index, count) : Math.max(index, count);
+  }
+
+  /**
+   * Get the scroll position of a node along an orientation.
+   */
+  export
+  function getScroll(node: HTMLElement, orient: Orientation): number {
+    return orient === Orientation.Horizontal ? node.scrollLeft : node.scrollTop;
+  }
+
+  /**
+   * Set the scroll position of a node along an orientation.
+   */
+  export
+  function setScroll(node: HTMLElement, orient: Orientation, value: number): void {
+    if (orient === Orientation.Horizontal) {
+      node.scrollLeft = value;
+    } else {
+      node.scrollTop = value;
+    }
+  }
+
+  /**
+   * Create a tab bar button node with the given class name.
+   */
+  export
+  function createButton(className: string): HTMLElement {
+    let node = document.createElement('div');
+    node.className = className;
+    node.setAttribute('aria-hidden', 'true');
+    return node;
+  }
+
+  /**
+   * Add or remove a class name on a node.
+   */
+  export
+  function toggleClass(node: HTMLElement, className: string, on: boolean): void {
+    if (on) {
+      node.classList.add(className);
+    } else {
+      node.classList.remove(className);
+    }
+  }
+
+  /**
+   * Set the relative offset of a tab along the drag orientation.
+   */
+  function setOffset(tab: HTMLElement, data: DragData, offset: number): void {
+    if (data.orientation === Orientation.Horizontal) {
+      tab.style.left = `${offset}px`;
+    } else {
+      tab.style.top = `${offset}px`;
+    }
+  }
+
+  /**
+   * Clamp the relative offset of the drag tab to its pinned group.
+   */
+  function clampOffset(data: DragData, offset: number): number {
+    let min = -data.tabPos;
+    let max = data.contentSize - (data.tabPos + data.tabSize);
+    if (data.minIndex > 0) {
+      min = data.tabLayout[data.minIndex].pos - data.tabPos;
+    }
+    if (data.maxIndex < data.tabLayout.length - 1) {
+      let last = data.tabLayout[data.maxIndex];
+      max = last.pos + last.size - (data.tabPos + data.tabSize);
+    }
+    return Math.max(min, Math.min(offset, max));
+  }
+
+  /**
+   * Clear the relative offset of a tab.
+   */
+  function clearOffset(tab: HTMLElement): void {
+    tab.style.left = '';
+    tab.style.top = '';
   }
 }
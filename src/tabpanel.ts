@@ -5,6 +5,10 @@
 |
 | The full license is in the file LICENSE, distributed with this software.
 |----------------------------------------------------------------------------*/
+import {
+  AttachedProperty
+} from 'phosphor-core/lib/properties';
+
 import {
   indexOf
 } from 'phosphor-core/lib/searching';
@@ -13,16 +17,25 @@ import {
   ISequence
 } from 'phosphor-core/lib/sequence';
 
+import {
+  ISignal, defineSignal
+} from 'phosphor-core/lib/signaling';
+
 import {
   BoxLayout
 } from './boxpanel';
 
+import {
+  Orientation
+} from './splitpanel';
+
 import {
   StackedPanel
 } from './stackedpanel';
 
 import {
-  ICurrentChangedArgs, ITabCloseArgs, ITabMovedArgs, TabBar
+  ICurrentChangedArgs, ITabActivateArgs, ITabCloseArgs, ITabDroppedArgs,
+  ITabMovedArgs, TabBar
 } from './tabbar';
 
 import {
@@ -45,17 +58,97 @@ const TAB_BAR_CLASS = 'p-TabPanel-tabBar';
  */
 const STACKED_PANEL_CLASS = 'p-TabPanel-stackedPanel';
 
+/**
+ * The class name added to a tab panel with the tabs on top.
+ */
+const TOP_CLASS = 'p-mod-top';
+
+/**
+ * The class name added to a tab panel with the tabs on the bottom.
+ */
+const BOTTOM_CLASS = 'p-mod-bottom';
+
+/**
+ * The class name added to a tab panel with the tabs on the left.
+ */
+const LEFT_CLASS = 'p-mod-left';
+
+/**
+ * The class name added to a tab panel with the tabs on the right.
+ */
+const RIGHT_CLASS = 'p-mod-right';
+
+
+/**
+ * The placement of the tab bar in a tab panel.
+ */
+export
+enum TabPlacement {
+  /**
+   * The tab bar is placed above the content area.
+   */
+  Top,
+
+  /**
+   * The tab bar is placed below the content area.
+   */
+  Bottom,
+
+  /**
+   * The tab bar is placed to the left of the content area.
+   */
+  Left,
+
+  /**
+   * The tab bar is placed to the right of the content area.
+   */
+  Right
+}
+
+
+/**
+ * The arguments object for the `widgetCloseRequested` signal.
+ */
+export
+interface IWidgetCloseArgs {
+  /**
+   * The index of the widget to close.
+   */
+  index: number;
+
+  /**
+   * The widget to close.
+   */
+  widget: Widget;
+
+  /**
+   * Prevent the tab panel from closing the widget.
+   *
+   * #### Notes
+   * A handler which needs to confirm the close with the user should
+   * call this method, and later call `widget.close()` to complete the
+   * close once the user has confirmed.
+   */
+  preventDefault(): void;
+}
+
 
 /**
  * A widget which combines a `TabBar` and a `StackedPanel`.
  *
  * #### Notes
  * This is a simple panel which handles the common case of a tab bar
- * placed above a content area. The selected tab controls the widget
- * which is shown in the content area.
+ * placed along one edge of a content area. The selected tab controls
+ * the widget which is shown in the content area.
  *
  * For use cases which require more control than is provided by this
  * panel, the `TabBar` widget may be used independently.
+ *
+ * When the user requests to close a tab, the panel first emits the
+ * `widgetCloseRequested` signal, and then sends a `'close-request'`
+ * message to the widget unless a handler prevented the default. A
+ * widget can also veto the close itself by reimplementing its
+ * `onCloseRequest` handler without calling the superclass method.
  */
 export
 class TabPanel extends Widget {
@@ -93,6 +186,7 @@ class TabPanel extends Widget {
   constructor() {
     super();
     this.addClass(TAB_PANEL_CLASS);
+    this.addClass(TOP_CLASS);
 
     // Create the tab bar and stacked panel.
     let ctor = this.constructor as typeof TabPanel;
@@ -102,7 +196,9 @@ class TabPanel extends Widget {
     // Connect the tab bar signal handlers.
     this._tabBar.tabMoved.connect(this._onTabMoved, this);
     this._tabBar.currentChanged.connect(this._onCurrentChanged, this);
+    this._tabBar.tabActivateRequested.connect(this._onTabActivateRequested, this);
     this._tabBar.tabCloseRequested.connect(this._onTabCloseRequested, this);
+    this._tabBar.tabDropped.connect(this._onTabDropped, this);
 
     // Connect the stacked panel signal handlers.
     this._stackedPanel.widgetRemoved.connect(this._onWidgetRemoved, this);
@@ -133,6 +229,20 @@ class TabPanel extends Widget {
     super.dispose();
   }
 
+  /**
+   * A signal emitted when the user requests to close a widget.
+   *
+   * #### Notes
+   * This signal is emitted when the tab bar requests to close a tab,
+   * before the widget is sent a `'close-request'` message.
+   *
+   * A handler can call `preventDefault` on the arguments to veto or
+   * defer the close.
+   *
+   * This signal is not emitted when a widget is closed directly.
+   */
+  widgetCloseRequested: ISignal<TabPanel, IWidgetCloseArgs>;
+
   /**
    * Get the index of the currently selected tab.
    *
@@ -194,6 +304,72 @@ class TabPanel extends Widget {
     this._tabBar.tabsMovable = value;
   }
 
+  /**
+   * Get whether the tab panel accepts tabs dragged from other panels.
+   *
+   * #### Notes
+   * When a tab from another tab panel is dropped on the tab bar, the
+   * owner widget is transferred to this panel.
+   *
+   * The default is `false`.
+   */
+  get acceptDrops(): boolean {
+    return this._tabBar.acceptDrops;
+  }
+
+  /**
+   * Set whether the tab panel accepts tabs dragged from other panels.
+   */
+  set acceptDrops(value: boolean) {
+    this._tabBar.acceptDrops = value;
+  }
+
+  /**
+   * Get the placement of the tab bar relative to the content area.
+   *
+   * #### Notes
+   * The default is `TabPlacement.Top`.
+   */
+  get tabPlacement(): TabPlacement {
+    return this._tabPlacement;
+  }
+
+  /**
+   * Set the placement of the tab bar relative to the content area.
+   *
+   * #### Notes
+   * The tab bar is vertical when placed on the left or right, and the
+   * tab bar is ordered after the content area when placed on the bottom
+   * or right.
+   */
+  set tabPlacement(value: TabPlacement) {
+    // Bail if the placement does not change.
+    if (this._tabPlacement === value) {
+      return;
+    }
+    this._tabPlacement = value;
+
+    // Compute the layout parameters for the placement.
+    let horz = value === TabPlacement.Top || value === TabPlacement.Bottom;
+    let first = value === TabPlacement.Top || value === TabPlacement.Left;
+
+    // Update the tab bar orientation.
+    this._tabBar.orientation = (
+      horz ? Orientation.Horizontal : Orientation.Vertical
+    );
+
+    // Update the layout direction and the position of the tab bar.
+    let layout = this.layout as BoxLayout;
+    layout.direction = horz ? BoxLayout.TopToBottom : BoxLayout.LeftToRight;
+    layout.insertWidget(first ? 0 : 1, this._tabBar);
+
+    // Update the placement modifier classes.
+    this.toggleClass(TOP_CLASS, value === TabPlacement.Top);
+    this.toggleClass(BOTTOM_CLASS, value === TabPlacement.Bottom);
+    this.toggleClass(LEFT_CLASS, value === TabPlacement.Left);
+    this.toggleClass(RIGHT_CLASS, value === TabPlacement.Right);
+  }
+
   /**
    * The tab bar associated with the tab panel.
    *
@@ -253,11 +429,25 @@ class TabPanel extends Widget {
    * If the widget is already contained in the panel, it will be moved.
    *
    * The widget's `title` is used to populate the tab.
+   *
+   * The widget's node is given the `tabpanel` ARIA role, and a widget
+   * without an `id` is given a generated one, so that the tab can
+   * reference it with `aria-controls`. The original role and id are
+   * restored when the widget is removed from the panel.
    */
   insertWidget(index: number, widget: Widget): void {
     if (widget !== this.currentWidget) widget.hide();
     this._stackedPanel.insertWidget(index, widget);
+
+    // Apply the ARIA state after the insert, since moving the widget
+    // from another tab panel restores its original state in the old
+    // panel. A widget moved within this panel keeps its state.
+    Private.applyTabState(widget);
     this._tabBar.insertTab(index, widget.title);
+
+    // Sync the widget index, which is adjusted for pinned tabs.
+    let i = indexOf(this._tabBar.titles, widget.title);
+    this._stackedPanel.insertWidget(i, widget);
   }
 
   /**
@@ -266,15 +456,54 @@ class TabPanel extends Widget {
   private _onCurrentChanged(sender: TabBar, args: ICurrentChangedArgs): void {
     let prev = args.previousTitle;
     let curr = args.currentTitle;
-    if (prev) (prev.owner as Widget).hide();
-    if (curr) (curr.owner as Widget).show();
+    // Keep the focus in the content if the old content had the focus.
+    let focused = this._stackedPanel.node.contains(document.activeElement);
+    if (curr) {
+      this._stackedPanel.transitionTo(curr.owner as Widget);
+      if (focused) (curr.owner as Widget).activate();
+    } else if (prev) {
+      (prev.owner as Widget).hide();
+    }
+  }
+
+  /**
+   * Handle the `tabActivateRequested` signal from the tab bar.
+   */
+  private _onTabActivateRequested(sender: TabBar, args: ITabActivateArgs): void {
+    (args.title.owner as Widget).activate();
   }
 
   /**
    * Handle the `tabCloseRequested` signal from the tab bar.
    */
   private _onTabCloseRequested(sender: TabBar, args: ITabCloseArgs): void {
-    (args.title.owner as Widget).close();
+    // Setup the arguments for the signal.
+    let prevented = false;
+    let index = args.index;
+    let widget = args.title.owner as Widget;
+    let preventDefault = () => { prevented = true; };
+
+    // Emit the widget close requested signal.
+    this.widgetCloseRequested.emit({ index, widget, preventDefault });
+
+    // Close the widget unless a handler prevented the default.
+    if (!prevented) widget.close();
+  }
+
+  /**
+   * Handle the `tabDropped` signal from the tab bar.
+   *
+   * #### Notes
+   * Inserting the widget removes it from the stacked panel of its
+   * source tab panel, which in turn removes the source tab.
+   */
+  private _onTabDropped(sender: TabBar, args: ITabDroppedArgs): void {
+    let widget = args.title.owner;
+    if (!(widget instanceof Widget)) {
+      return;
+    }
+    this.insertWidget(args.index, widget);
+    this.currentWidget = widget;
   }
 
   /**
@@ -288,9 +517,85 @@ class TabPanel extends Widget {
    * Handle the `widgetRemoved` signal from the stacked panel.
    */
   private _onWidgetRemoved(sender: StackedPanel, widget: Widget): void {
+    Private.restoreTabState(widget);
     this._tabBar.removeTab(indexOf(this._tabBar.titles, widget.title));
   }
 
   private _tabBar: TabBar;
   private _stackedPanel: StackedPanel;
+  private _tabPlacement = TabPlacement.Top;
+}
+
+
+// Define the signals for the `TabPanel` class.
+defineSignal(TabPanel.prototype, 'widgetCloseRequested');
+
+
+/**
+ * The namespace for the private module data.
+ */
+namespace Private {
+  /**
+   * The widget state replaced by a tab panel.
+   */
+  interface ITabState {
+    /**
+     * Whether the widget `id` was generated by the tab panel.
+     */
+    generatedId: boolean;
+
+    /**
+     * The original `role` attribute of the widget node, or `null`.
+     */
+    role: string;
+  }
+
+  /**
+   * The property descriptor for the state replaced by a tab panel.
+   */
+  const tabStateProperty = new AttachedProperty<Widget, ITabState>({
+    name: 'tabState',
+    value: null
+  });
+
+  /**
+   * The counter for generated widget ids.
+   */
+  let idTick = 0;
+
+  /**
+   * Apply the tab panel role and id to a widget.
+   *
+   * #### Notes
+   * This is a no-op if the state is already applied.
+   */
+  export
+  function applyTabState(widget: Widget): void {
+    if (tabStateProperty.get(widget)) {
+      return;
+    }
+    let generatedId = !widget.id;
+    let role = widget.node.getAttribute('role');
+    tabStateProperty.set(widget, { generatedId, role });
+    if (generatedId) widget.id = `p-TabPanel-widget-${idTick++}`;
+    widget.node.setAttribute('role', 'tabpanel');
+  }
+
+  /**
+   * Restore the role and id replaced by [[applyTabState]].
+   */
+  export
+  function restoreTabState(widget: Widget): void {
+    let state = tabStateProperty.get(widget);
+    if (!state) {
+      return;
+    }
+    tabStateProperty.set(widget, null);
+    if (state.generatedId) widget.node.removeAttribute('id');
+    if (state.role === null) {
+      widget.node.removeAttribute('role');
+    } else {
+      widget.node.setAttribute('role', state.role);
+    }
+  }
 }
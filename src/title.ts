@@ -44,6 +44,11 @@ interface ITitleOptions {
    * The closable state for the title.
    */
   closable?: boolean;
+
+  /**
+   * The pinned state for the title.
+   */
+  pinned?: boolean;
 }
 
 
@@ -81,6 +86,9 @@ class Title {
     if (options.className !== void 0) {
       this._className = options.className;
     }
+    if (options.pinned !== void 0) {
+      this._pinned = options.pinned;
+    }
   }
 
   /**
@@ -214,11 +222,37 @@ class Title {
     this.changed.emit(void 0);
   }
 
+  /**
+   * Get the pinned state for the title.
+   *
+   * #### Notes
+   * The default value is `false`.
+   */
+  get pinned(): boolean {
+    return this._pinned;
+  }
+
+  /**
+   * Set the pinned state for the title.
+   *
+   * #### Notes
+   * A tab bar groups pinned tabs at its start, renders them compactly,
+   * and does not close them from the close icon or middle button.
+   */
+  set pinned(value: boolean) {
+    if (this._pinned === value) {
+      return;
+    }
+    this._pinned = value;
+    this.changed.emit(void 0);
+  }
+
   private _text = '';
   private _icon = '';
   private _tooltip = '';
   private _className = '';
   private _closable = false;
+  private _pinned = false;
   private _owner: any = null;
 }
 
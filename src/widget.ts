@@ -403,6 +403,16 @@ class Widget implements IDisposable, IMessageHandler {
     postMessage(this, WidgetMessage.FitRequest);
   }
 
+  /**
+   * Post an `'activate-request'` message to the widget.
+   *
+   * #### Notes
+   * This is a simple convenience method for posting the message.
+   */
+  activate(): void {
+    postMessage(this, WidgetMessage.ActivateRequest);
+  }
+
   /**
    * Send a `'close-request'` message to the widget.
    *
@@ -548,6 +558,18 @@ class Widget implements IDisposable, IMessageHandler {
       this.notifyLayout(msg);
       this.onCloseRequest(msg);
       break;
+    case 'activate-request':
+      this.notifyLayout(msg);
+      this.onActivateRequest(msg);
+      break;
+    case 'focus-in':
+      this.notifyLayout(msg);
+      this.onFocusIn(msg);
+      break;
+    case 'focus-out':
+      this.notifyLayout(msg);
+      this.onFocusOut(msg);
+      break;
     case 'child-added':
       this.notifyLayout(msg);
       this.onChildAdded(msg as ChildMessage);
@@ -590,6 +612,43 @@ class Widget implements IDisposable, IMessageHandler {
     }
   }
 
+  /**
+   * A message handler invoked on an `'activate-request'` message.
+   *
+   * #### Notes
+   * The default implementation focuses the widget node, unless the
+   * node already contains the focused element or the widget is not
+   * visible. A node without a `tabindex` is first given a `tabIndex`
+   * of `-1`, which makes it focusable without adding it to the tab
+   * order. A subclass may reimplement this method to focus a more
+   * suitable descendant node.
+   */
+  protected onActivateRequest(msg: Message): void {
+    if (!this.isVisible || this._node.contains(document.activeElement)) {
+      return;
+    }
+    if (!this._node.hasAttribute('tabindex')) {
+      this._node.tabIndex = -1;
+    }
+    this._node.focus();
+  }
+
+  /**
+   * A message handler invoked on a `'focus-in'` message.
+   *
+   * #### Notes
+   * The default implementation of this handler is a no-op.
+   */
+  protected onFocusIn(msg: Message): void { }
+
+  /**
+   * A message handler invoked on a `'focus-out'` message.
+   *
+   * #### Notes
+   * The default implementation of this handler is a no-op.
+   */
+  protected onFocusOut(msg: Message): void { }
+
   /**
    * A message handler invoked on a `'resize'` message.
    *
@@ -1124,6 +1183,37 @@ namespace WidgetMessage {
    */
   export
   const CloseRequest = new ConflatableMessage('close-request');
+
+  /**
+   * A singleton conflatable `'activate-request'` message.
+   *
+   * #### Notes
+   * This message should be dispatched to a widget when it should
+   * perform the actions necessary to activate the widget, which
+   * usually means giving it the input focus.
+   */
+  export
+  const ActivateRequest = new ConflatableMessage('activate-request');
+
+  /**
+   * A singleton `'focus-in'` message.
+   *
+   * #### Notes
+   * This message is sent to a widget by a [[FocusTracker]] when the
+   * widget becomes the active widget of the tracker.
+   */
+  export
+  const FocusIn = new Message('focus-in');
+
+  /**
+   * A singleton `'focus-out'` message.
+   *
+   * #### Notes
+   * This message is sent to a widget by a [[FocusTracker]] when the
+   * widget is no longer the active widget of the tracker.
+   */
+  export
+  const FocusOut = new Message('focus-out');
 }
 
 
@@ -0,0 +1,732 @@
+/*-----------------------------------------------------------------------------
+| Copyright (c) 2014-2016, PhosphorJS Contributors
+|
+| Distributed under the terms of the BSD 3-Clause License.
+|
+| The full license is in the file LICENSE, distributed with this software.
+|----------------------------------------------------------------------------*/
+import {
+  toArray
+} from 'phosphor-core/lib/iteration';
+
+import {
+  AttachedProperty
+} from 'phosphor-core/lib/properties';
+
+import {
+  indexOf
+} from 'phosphor-core/lib/searching';
+
+import {
+  ISequence
+} from 'phosphor-core/lib/sequence';
+
+import {
+  BoxPanel, Direction
+} from './boxpanel';
+
+import {
+  Panel
+} from './panel';
+
+import {
+  Orientation, SplitPanel
+} from './splitpanel';
+
+import {
+  TabPanel, TabPlacement
+} from './tabpanel';
+
+import {
+  Widget
+} from './widget';
+
+
+/**
+ * An object which describes a widget in a declarative widget tree.
+ *
+ * #### Notes
+ * The `type` is one of the built-in container types `'panel'`, `'box'`,
+ * `'split'` and `'tab'`, or the name of a leaf factory in the widget
+ * registry. The built-in types take precedence over the registry.
+ *
+ * The description is plain data, so it may be loaded from JSON.
+ */
+export
+interface IWidgetDescription {
+  /**
+   * The type of the widget.
+   */
+  type: string;
+
+  /**
+   * The key which identifies the widget among its siblings.
+   *
+   * #### Notes
+   * When a description is applied with [[updateWidgetTree]], a child
+   * with a key keeps the widget of the previous child with the same
+   * key. Children without a key are matched by position.
+   *
+   * Keys must be unique among siblings.
+   */
+  key?: string;
+
+  /**
+   * The id to assign to the widget node.
+   */
+  id?: string;
+
+  /**
+   * The title text for the widget.
+   *
+   * #### Notes
+   * This is used as the tab text when the parent is a `'tab'` panel.
+   */
+  title?: string;
+
+  /**
+   * Whether the title of the widget is closable.
+   */
+  closable?: boolean;
+
+  /**
+   * The descriptions of the child widgets.
+   *
+   * #### Notes
+   * This is only valid for the built-in container types.
+   */
+  children?: IWidgetDescription[];
+
+  /**
+   * The orientation of a `'split'` panel.
+   *
+   * #### Notes
+   * The default is `'horizontal'`.
+   */
+  orientation?: string;
+
+  /**
+   * The layout direction of a `'box'` panel.
+   *
+   * #### Notes
+   * This is one of `'left-to-right'`, `'right-to-left'`,
+   * `'top-to-bottom'`, or `'bottom-to-top'`.
+   *
+   * The default is `'top-to-bottom'`.
+   */
+  direction?: string;
+
+  /**
+   * The inter-element spacing of a `'box'` or `'split'` panel.
+   */
+  spacing?: number;
+
+  /**
+   * The initial sizes of the children of a `'split'` panel.
+   */
+  sizes?: number[];
+
+  /**
+   * The tab placement of a `'tab'` panel.
+   *
+   * #### Notes
+   * This is one of `'top'`, `'bottom'`, `'left'`, or `'right'`.
+   *
+   * The default is `'top'`.
+   */
+  tabPlacement?: string;
+
+  /**
+   * The index of the current child of a `'tab'` panel.
+   */
+  currentIndex?: number;
+
+  /**
+   * The stretch factor of the widget in a `'box'` or `'split'` parent.
+   */
+  stretch?: number;
+
+  /**
+   * The size basis of the widget in a `'box'` parent.
+   */
+  sizeBasis?: number;
+
+  /**
+   * Extra options for a leaf factory.
+   *
+   * #### Notes
+   * These are not interpreted by the widget tree functions.
+   */
+  options?: any;
+}
+
+
+/**
+ * A factory function which creates a leaf widget from a description.
+ */
+export
+interface ILeafFactory {
+  (description: IWidgetDescription): Widget;
+}
+
+
+/**
+ * A mapping of leaf widget type name to leaf factory.
+ */
+export
+interface IWidgetRegistry {
+  [type: string]: ILeafFactory;
+}
+
+
+/**
+ * Validate a declarative widget tree description.
+ *
+ * @param description - The description of the root widget.
+ *
+ * @param registry - The registry of leaf widget factories.
+ *
+ * #### Notes
+ * This will throw an error for the first invalid description found.
+ * The error message starts with the path to the offending description,
+ * for example `root.children[1].sizes`.
+ */
+export
+function validateWidgetTree(description: IWidgetDescription, registry: IWidgetRegistry): void {
+  Private.validate(description, registry, 'root', null);
+}
+
+
+/**
+ * Create a widget tree from a declarative description.
+ *
+ * @param description - The description of the root widget.
+ *
+ * @param registry - The registry of leaf widget factories.
+ *
+ * @returns The root widget of the assembled tree.
+ *
+ * #### Notes
+ * The description is validated before any widget is created, and an
+ * error is thrown if it is invalid. See [[validateWidgetTree]].
+ *
+ * An error is also thrown if a leaf factory does not return a widget.
+ */
+export
+function createWidgetTree(description: IWidgetDescription, registry: IWidgetRegistry): Widget {
+  validateWidgetTree(description, registry);
+  return Private.create(description, registry, 'root', null);
+}
+
+
+/**
+ * Apply an updated declarative description to an existing widget tree.
+ *
+ * @param widget - The root widget of a tree created by [[createWidgetTree]].
+ *
+ * @param description - The updated description of the root widget.
+ *
+ * @param registry - The registry of leaf widget factories.
+ *
+ * @returns The root widget of the updated tree. This is the original
+ *   root widget, unless its type or key has changed, in which case it
+ *   is a newly created tree and the original root is left untouched.
+ *
+ * #### Notes
+ * The description is validated before any widget is modified, and an
+ * error is thrown if it is invalid. See [[validateWidgetTree]].
+ *
+ * A widget is reused when its previous description has the same type
+ * and key. Reused widgets are reordered with the fewest moves, unused
+ * widgets are disposed, and only the fields and attached properties
+ * which differ from the previous description are applied, so widgets
+ * which have not changed are not resized.
+ *
+ * A field which is removed from a description is not reset. A reused
+ * leaf widget is not recreated when its `options` change; give it a
+ * new key to force it to be recreated.
+ */
+export
+function updateWidgetTree(widget: Widget, description: IWidgetDescription, registry: IWidgetRegistry): Widget {
+  validateWidgetTree(description, registry);
+  return Private.reconcile(widget, description, registry, 'root', null);
+}
+
+
+/**
+ * The namespace for the private module data.
+ */
+namespace Private {
+  /**
+   * The built-in container types.
+   */
+  const containerTypes = ['panel', 'box', 'split', 'tab'];
+
+  /**
+   * A mapping of orientation name to orientation.
+   */
+  const orientations: { [name: string]: Orientation } = {
+    'horizontal': Orientation.Horizontal,
+    'vertical': Orientation.Vertical
+  };
+
+  /**
+   * A mapping of direction name to direction.
+   */
+  const directions: { [name: string]: Direction } = {
+    'left-to-right': Direction.LeftToRight,
+    'right-to-left': Direction.RightToLeft,
+    'top-to-bottom': Direction.TopToBottom,
+    'bottom-to-top': Direction.BottomToTop
+  };
+
+  /**
+   * A mapping of tab placement name to tab placement.
+   */
+  const placements: { [name: string]: TabPlacement } = {
+    'top': TabPlacement.Top,
+    'bottom': TabPlacement.Bottom,
+    'left': TabPlacement.Left,
+    'right': TabPlacement.Right
+  };
+
+  /**
+   * The property descriptor for the description applied to a widget.
+   */
+  const descriptionProperty = new AttachedProperty<Widget, IWidgetDescription>({
+    name: 'description',
+    value: null
+  });
+
+  /**
+   * A description viewed as a map of field name to field value.
+   */
+  interface IFieldMap {
+    [name: string]: any;
+  }
+
+  /**
+   * An object which holds the children of a container widget.
+   */
+  interface IContainer extends Widget {
+    widgets: ISequence<Widget>;
+    insertWidget(index: number, widget: Widget): void;
+  }
+
+  /**
+   * Test whether a type is a built-in container type.
+   */
+  export
+  function isContainer(type: string): boolean {
+    return containerTypes.indexOf(type) !== -1;
+  }
+
+  /**
+   * Create an error for the description at the given path.
+   */
+  export
+  function invalid(path: string, message: string): Error {
+    return new Error(`Invalid widget description at '${path}': ${message}`);
+  }
+
+  /**
+   * Validate a description and its children, recursively.
+   */
+  export
+  function validate(desc: IWidgetDescription, registry: IWidgetRegistry, path: string, parentType: string): void {
+    // Validate the basic shape of the description.
+    if (!desc || typeof desc !== 'object') {
+      throw invalid(path, 'expected an object.');
+    }
+    let type = desc.type;
+    if (typeof type !== 'string') {
+      throw invalid(`${path}.type`, 'expected a string.');
+    }
+    let container = isContainer(type);
+    if (!container && !(registry.hasOwnProperty(type))) {
+      throw invalid(`${path}.type`, `unknown widget type '${type}'.`);
+    }
+
+    // Validate the common fields.
+    checkType(desc, 'key', 'string', path);
+    checkType(desc, 'id', 'string', path);
+    checkType(desc, 'title', 'string', path);
+    checkType(desc, 'closable', 'boolean', path);
+
+    // Validate the attached properties against the parent type.
+    if (desc.stretch !== void 0) {
+      checkType(desc, 'stretch', 'number', path);
+      if (parentType !== 'box' && parentType !== 'split') {
+        throw invalid(`${path}.stretch`, `not supported in a '${parentType || 'root'}' parent.`);
+      }
+    }
+    if (desc.sizeBasis !== void 0) {
+      checkType(desc, 'sizeBasis', 'number', path);
+      if (parentType !== 'box') {
+        throw invalid(`${path}.sizeBasis`, `not supported in a '${parentType || 'root'}' parent.`);
+      }
+    }
+
+    // Validate the type specific fields.
+    checkField(desc, 'orientation', type === 'split', path);
+    checkField(desc, 'direction', type === 'box', path);
+    checkField(desc, 'spacing', type === 'box' || type === 'split', path);
+    checkField(desc, 'sizes', type === 'split', path);
+    checkField(desc, 'tabPlacement', type === 'tab', path);
+    checkField(desc, 'currentIndex', type === 'tab', path);
+    checkField(desc, 'children', container, path);
+    checkName(desc, 'orientation', orientations, path);
+    checkName(desc, 'direction', directions, path);
+    checkName(desc, 'tabPlacement', placements, path);
+    checkType(desc, 'spacing', 'number', path);
+    checkType(desc, 'currentIndex', 'number', path);
+
+    // Validate the children.
+    let children = desc.children || [];
+    if (!Array.isArray(children)) {
+      throw invalid(`${path}.children`, 'expected an array.');
+    }
+    let keys: string[] = [];
+    for (let i = 0, n = children.length; i < n; ++i) {
+      let childPath = `${path}.children[${i}]`;
+      validate(children[i], registry, childPath, type);
+      let key = children[i].key;
+      if (key === void 0) {
+        continue;
+      }
+      if (keys.indexOf(key) !== -1) {
+        throw invalid(`${childPath}.key`, `duplicate key '${key}'.`);
+      }
+      keys.push(key);
+    }
+
+    // Validate the split sizes.
+    if (desc.sizes !== void 0) {
+      let sizes = desc.sizes;
+      if (!Array.isArray(sizes) || sizes.some(size => typeof size !== 'number')) {
+        throw invalid(`${path}.sizes`, 'expected an array of numbers.');
+      }
+      if (sizes.length !== children.length) {
+        throw invalid(`${path}.sizes`, `expected ${children.length} sizes, got ${sizes.length}.`);
+      }
+    }
+
+    // Validate the tab current index.
+    if (desc.currentIndex !== void 0) {
+      let index = desc.currentIndex;
+      if (Math.floor(index) !== index || index < 0 || index >= children.length) {
+        throw invalid(`${path}.currentIndex`, `index ${index} is out of range.`);
+      }
+    }
+  }
+
+  /**
+   * Create a widget and its children from a valid description.
+   */
+  export
+  function create(desc: IWidgetDescription, registry: IWidgetRegistry, path: string, parentType: string): Widget {
+    // Create the leaf widget or the empty container.
+    let widget: Widget;
+    if (isContainer(desc.type)) {
+      widget = createContainer(desc.type);
+    } else {
+      widget = registry[desc.type](desc);
+      if (!(widget instanceof Widget)) {
+        throw invalid(path, `factory for '${desc.type}' did not return a widget.`);
+      }
+    }
+
+    // Apply the description to the new widget.
+    apply(widget, desc, null, registry, path, parentType);
+    return widget;
+  }
+
+  /**
+   * Reconcile a widget with a valid description.
+   *
+   * Returns the given widget if it is reused, or a new widget.
+   */
+  export
+  function reconcile(widget: Widget, desc: IWidgetDescription, registry: IWidgetRegistry, path: string, parentType: string): Widget {
+    // Create a new widget if the widget cannot be reused.
+    let old = descriptionProperty.get(widget);
+    if (!old || old.type !== desc.type || old.key !== desc.key) {
+      return create(desc, registry, path, parentType);
+    }
+
+    // Apply the changes to the reused widget.
+    apply(widget, desc, old, registry, path, parentType);
+    return widget;
+  }
+
+  /**
+   * Apply the changes between two descriptions to a widget.
+   *
+   * The old description is `null` for a new widget.
+   */
+  function apply(widget: Widget, desc: IWidgetDescription, old: IWidgetDescription, registry: IWidgetRegistry, path: string, parentType: string): void {
+    // Use an empty old description for a new widget.
+    let prev: IWidgetDescription = old || { type: desc.type };
+
+    // Apply the common fields and attached properties.
+    applyCommon(widget, desc, prev);
+    applyAttached(widget, desc, prev, parentType);
+
+    // Update the container fields and children.
+    if (isContainer(desc.type)) {
+      applyContainer(widget, desc, prev, old === null);
+      reconcileChildren(widget as IContainer, desc, registry, path);
+      applyChildState(widget, desc, prev);
+    }
+
+    // Store a copy of the applied description for the next update,
+    // so a description mutated in place is still compared correctly.
+    descriptionProperty.set(widget, copyDescription(desc));
+  }
+
+  /**
+   * Reconcile the children of a container with a description.
+   */
+  function reconcileChildren(container: IContainer, desc: IWidgetDescription, registry: IWidgetRegistry, path: string): void {
+    // Partition the old children into keyed and positional children.
+    let keyed = new Map<string, Widget>();
+    let positional: Widget[] = [];
+    let oldChildren = toArray(container.widgets);
+    for (let i = 0, n = oldChildren.length; i < n; ++i) {
+      let d = descriptionProperty.get(oldChildren[i]);
+      if (d && d.key !== void 0) {
+        keyed.set(d.key, oldChildren[i]);
+      } else {
+        positional.push(oldChildren[i]);
+      }
+    }
+
+    // Match, reconcile, or create the widget for each child.
+    let reused: Widget[] = [];
+    let targets: Widget[] = [];
+    let children = desc.children || [];
+    for (let i = 0, n = children.length; i < n; ++i) {
+      let cd = children[i];
+      let candidate = cd.key !== void 0 ? keyed.get(cd.key) : positional.shift();
+      let childPath = `${path}.children[${i}]`;
+      let child: Widget;
+      if (candidate) {
+        child = reconcile(candidate, cd, registry, childPath, desc.type);
+      } else {
+        child = create(cd, registry, childPath, desc.type);
+      }
+      if (child === candidate) reused.push(child);
+      targets.push(child);
+    }
+
+    // Dispose of the old children which were not reused.
+    for (let i = 0, n = oldChildren.length; i < n; ++i) {
+      if (reused.indexOf(oldChildren[i]) === -1) oldChildren[i].dispose();
+    }
+
+    // Find the reused children which can stay in place.
+    let stable = stableSet(targets.map(child => indexOf(container.widgets, child)));
+
+    // Move or insert the other children after their predecessor.
+    for (let i = 0, n = targets.length; i < n; ++i) {
+      if (stable[i]) {
+        continue;
+      }
+      let p = i > 0 ? indexOf(container.widgets, targets[i - 1]) : -1;
+      let j = indexOf(container.widgets, targets[i]);
+      let k = j !== -1 && j < p ? p : p + 1;
+      if (j !== k) container.insertWidget(k, targets[i]);
+    }
+  }
+
+  /**
+   * Compute which children can stay in place during a reorder.
+   *
+   * The argument holds the current index of each child in the target
+   * order, or `-1` for a new child. The result flags the children in
+   * a longest increasing run of current indices, which is the largest
+   * set of children whose relative order is already correct.
+   */
+  function stableSet(indices: number[]): boolean[] {
+    // Compute the longest increasing run ending at each child.
+    let n = indices.length;
+    let lengths: number[] = [];
+    let links: number[] = [];
+    let best = -1;
+    for (let i = 0; i < n; ++i) {
+      lengths[i] = 0;
+      links[i] = -1;
+      if (indices[i] === -1) {
+        continue;
+      }
+      lengths[i] = 1;
+      for (let j = 0; j < i; ++j) {
+        if (indices[j] !== -1 && indices[j] < indices[i] && lengths[j] + 1 > lengths[i]) {
+          lengths[i] = lengths[j] + 1;
+          links[i] = j;
+        }
+      }
+      if (best === -1 || lengths[i] > lengths[best]) {
+        best = i;
+      }
+    }
+
+    // Flag the children in the longest run.
+    let result: boolean[] = [];
+    for (let i = 0; i < n; ++i) {
+      result[i] = false;
+    }
+    for (let i = best; i !== -1; i = links[i]) {
+      result[i] = true;
+    }
+    return result;
+  }
+
+  /**
+   * Create an empty container widget of the given type.
+   */
+  function createContainer(type: string): Widget {
+    switch (type) {
+    case 'box':
+      return new BoxPanel();
+    case 'split':
+      return new SplitPanel();
+    case 'tab':
+      return new TabPanel();
+    default:
+      return new Panel();
+    }
+  }
+
+  /**
+   * Apply the changed container fields which do not depend on children.
+   */
+  function applyContainer(widget: Widget, desc: IWidgetDescription, prev: IWidgetDescription, isNew: boolean): void {
+    switch (desc.type) {
+    case 'box':
+      let box = widget as BoxPanel;
+      if (isNew || desc.direction !== prev.direction) {
+        box.direction = directions[desc.direction || 'top-to-bottom'];
+      }
+      if (desc.spacing !== void 0 && desc.spacing !== prev.spacing) {
+        box.spacing = desc.spacing;
+      }
+      break;
+    case 'split':
+      let split = widget as SplitPanel;
+      if (isNew || desc.orientation !== prev.orientation) {
+        split.orientation = orientations[desc.orientation || 'horizontal'];
+      }
+      if (desc.spacing !== void 0 && desc.spacing !== prev.spacing) {
+        split.spacing = desc.spacing;
+      }
+      break;
+    case 'tab':
+      let tab = widget as TabPanel;
+      if (isNew || desc.tabPlacement !== prev.tabPlacement) {
+        tab.tabPlacement = placements[desc.tabPlacement || 'top'];
+      }
+      break;
+    }
+  }
+
+  /**
+   * Apply the changed container fields which depend on the children.
+   */
+  function applyChildState(widget: Widget, desc: IWidgetDescription, prev: IWidgetDescription): void {
+    if (desc.type === 'split' && desc.sizes && !sameSizes(desc.sizes, prev.sizes)) {
+      (widget as SplitPanel).setSizes(desc.sizes);
+    }
+    if (desc.type === 'tab' && desc.currentIndex !== void 0 && desc.currentIndex !== prev.currentIndex) {
+      (widget as TabPanel).currentIndex = desc.currentIndex;
+    }
+  }
+
+  /**
+   * Apply the changed fields common to all widget types.
+   */
+  function applyCommon(widget: Widget, desc: IWidgetDescription, prev: IWidgetDescription): void {
+    if (desc.id !== void 0 && desc.id !== prev.id) {
+      widget.id = desc.id;
+    }
+    if (desc.title !== void 0 && desc.title !== prev.title) {
+      widget.title.text = desc.title;
+    }
+    if (desc.closable !== void 0 && desc.closable !== prev.closable) {
+      widget.title.closable = desc.closable;
+    }
+  }
+
+  /**
+   * Apply the changed attached properties for the given parent type.
+   */
+  function applyAttached(widget: Widget, desc: IWidgetDescription, prev: IWidgetDescription, parentType: string): void {
+    let stretch = desc.stretch !== void 0 && desc.stretch !== prev.stretch;
+    let sizeBasis = desc.sizeBasis !== void 0 && desc.sizeBasis !== prev.sizeBasis;
+    if (parentType === 'box') {
+      if (stretch) BoxPanel.setStretch(widget, desc.stretch);
+      if (sizeBasis) BoxPanel.setSizeBasis(widget, desc.sizeBasis);
+    } else if (parentType === 'split') {
+      if (stretch) SplitPanel.setStretch(widget, desc.stretch);
+    }
+  }
+
+  /**
+   * Create a copy of the fields of a description.
+   *
+   * The children are omitted, since each child widget stores its own
+   * description, and the sizes are cloned.
+   */
+  function copyDescription(desc: IWidgetDescription): IWidgetDescription {
+    let fields = desc as IFieldMap;
+    let copy: IFieldMap = {};
+    for (let name in fields) {
+      if (name !== 'children') copy[name] = fields[name];
+    }
+    if (desc.sizes) copy['sizes'] = desc.sizes.slice();
+    return copy as IWidgetDescription;
+  }
+
+  /**
+   * Test whether two optional size arrays are equal.
+   */
+  function sameSizes(a: number[], b: number[]): boolean {
+    if (!a || !b || a.length !== b.length) {
+      return a === b;
+    }
+    for (let i = 0, n = a.length; i < n; ++i) {
+      if (a[i] !== b[i]) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Throw an error if a field is present but not of the given type.
+   */
+  function checkType(desc: IWidgetDescription, name: string, type: string, path: string): void {
+    let value = (desc as IFieldMap)[name];
+    if (value !== void 0 && typeof value !== type) {
+      throw invalid(`${path}.${name}`, `expected a ${type}.`);
+    }
+  }
+
+  /**
+   * Throw an error if a field is present but not supported by the type.
+   */
+  function checkField(desc: IWidgetDescription, name: string, supported: boolean, path: string): void {
+    if (!supported && (desc as IFieldMap)[name] !== void 0) {
+      throw invalid(`${path}.${name}`, `not supported by type '${desc.type}'.`);
+    }
+  }
+
+  /**
+   * Throw an error if a field is present but not a known name.
+   */
+  function checkName(desc: IWidgetDescription, name: string, names: { [name: string]: any }, path: string): void {
+    let value = (desc as IFieldMap)[name];
+    if (value !== void 0 && !names.hasOwnProperty(value)) {
+      let expected = Object.keys(names).map(key => `'${key}'`).join(', ');
+      throw invalid(`${path}.${name}`, `expected one of ${expected}.`);
+    }
+  }
+}